@@ -1,7 +1,7 @@
 import { Command } from "commander";
 import * as api from "../lib/api";
 import { log } from "../lib/log";
-import { cfg } from "../lib/config";
+import { activeContext } from "../lib/contexts";
 
 const affiliate = new Command("affiliate")
   .description("Affiliate program")
@@ -25,7 +25,7 @@ affiliate
   .command("stats")
   .description("View affiliate stats in the web UI")
   .action(() => {
-    log.info(`View your affiliate stats at: ${cfg.apiBase}/user/affiliate`);
+    log.info(`View your affiliate stats at: ${activeContext().apiBase}/user/affiliate`);
   });
 
 export const affiliateCommand = affiliate;
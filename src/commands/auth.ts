@@ -1,15 +1,44 @@
 import { Command } from "commander";
-import { Input } from "../lib/prompt";
+import process from "node:process";
+import { Input, Secret } from "../lib/prompt";
 import {
   checkUserStatus,
+  refreshAccessToken,
   revokeRefreshToken,
   startEmailLogin,
   verifyEmailCode,
 } from "../lib/api";
 import { loadTokenBundle, saveTokenBundle } from "../lib/auth";
 import { cfg } from "../lib/config";
-import { log } from "../lib/log";
+import {
+  activeContext,
+  activeContextName,
+  contextExists,
+  DEFAULT_CONTEXT,
+  defineContext,
+  listContexts,
+  readContexts,
+  saveContext,
+  useContext,
+} from "../lib/contexts";
+import {
+  isKeychainBackend,
+  KEYCHAIN_BACKENDS,
+  keychainBackend,
+  keychainPassphrase,
+  loadTokens,
+  machinePassphrase,
+  migrateTokens,
+  PBKDF2_RECOMMENDED_ITERATIONS,
+  rekeyTokens,
+  SCRYPT_DEFAULTS,
+} from "../lib/keychain";
+import type { KdfParams } from "../lib/keychain";
+import { decodeJwt, jwtScopes } from "../lib/jwt";
+import type { JwtClaims } from "../lib/jwt";
+import { log, paint } from "../lib/log";
 import { ApiClientError } from "../lib/apiclient";
+import type { StoredTokens } from "../lib/types";
 
 const auth = new Command("auth")
   .description("Authenticate and manage tokens")
@@ -21,9 +50,27 @@ auth
   .command("login")
   .description("Login via email + one-time code (no browser)")
   .option("--email <email:string>", "Email address to authenticate")
-  .action(async (opts: { email?: string }) => {
+  .option(
+    "--api-url <url:string>",
+    "API base URL for the context (a new context defaults to MJCTL_API_URL or the production API)",
+  )
+  .action(async (opts: { email?: string; apiUrl?: string }) => {
     const isValidEmail = (v: string) => /\S+@\S+\.\S+/.test(String(v ?? "").trim());
 
+    // Tokens go to the active context (--context, MJCTL_CONTEXT or `auth use`); a new one is saved on success
+    const ctx = activeContext();
+    const isNewContext = !contextExists(ctx.name);
+    let apiBase = ctx.apiBase;
+    if (opts.apiUrl) {
+      if (!/^https?:\/\/[^/\s]+/.test(opts.apiUrl)) {
+        log.error("--api-url must be an http(s) URL, e.g. https://staging.example.com");
+        return;
+      }
+      apiBase = opts.apiUrl.replace(/\/+$/, "");
+      defineContext(ctx.name, apiBase);
+    }
+    if (ctx.name !== DEFAULT_CONTEXT || opts.apiUrl) log.info(`Context: ${ctx.name} (${apiBase})`);
+
     let email = (opts.email ?? "") as string;
     email = (email || "").trim();
 
@@ -80,6 +127,12 @@ auth
         );
         await saveTokenBundle(t);
         log.info(`Tokens stored in keychain.`);
+        if (isNewContext || opts.apiUrl) {
+          await saveContext(ctx.name, apiBase);
+          if (isNewContext && readContexts().current !== ctx.name) {
+            log.info(`Saved context "${ctx.name}". Make it the default with: ${cfg.appName} auth use ${ctx.name}`);
+          }
+        }
         return;
       } catch (e) {
         if (attempts > 0) {
@@ -95,6 +148,8 @@ auth
   .command("status")
   .description("Show current auth status")
   .action(async () => {
+    const ctx = activeContext();
+    log.info(`Context: ${ctx.name} (${ctx.apiBase})`);
     const tok = await loadTokenBundle();
     if (!tok) {
       log.warn(`No auth token found. Try: ${cfg.appName} auth login --email you@example.com`);
@@ -151,4 +206,310 @@ auth
     log.info(`✓ Logged out.`);
   });
 
+// "in 59m" / "3m ago" for a number of seconds from now
+function fromNow(seconds: number): string {
+  const abs = Math.abs(seconds);
+  const span = abs < 120 ? `${abs}s` : abs < 7200 ? `${Math.round(abs / 60)}m` : abs < 172800
+    ? `${Math.round(abs / 3600)}h`
+    : `${Math.round(abs / 86400)}d`;
+  return seconds >= 0 ? `in ${span}` : `${span} ago`;
+}
+
+function isoTime(epoch: number): string {
+  return new Date(epoch * 1000).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+// Everything known locally about the stored tokens; claims are decoded without verification
+function describeTokens(tokens: StoredTokens) {
+  const now = Math.floor(Date.now() / 1000);
+  const ctx = activeContext();
+  const access = decodeJwt(tokens.accessToken);
+  const refresh = tokens.refreshToken ? decodeJwt(tokens.refreshToken) : null;
+  const claims: JwtClaims = access?.claims ?? {};
+  const scopes = tokens.scope ? tokens.scope.split(/\s+/).filter(Boolean) : jwtScopes(claims);
+  const refreshExp = typeof refresh?.claims.exp === "number" ? refresh.claims.exp : undefined;
+  return {
+    context: ctx.name,
+    apiBase: ctx.apiBase,
+    email: tokens.subject?.email ?? tokens.email ?? claims.email,
+    subject: claims.sub,
+    scopes,
+    accessToken: {
+      format: access ? `JWT${typeof access.header.alg === "string" ? ` (${access.header.alg})` : ""}` : "opaque",
+      expiresAt: isoTime(tokens.expiresAt),
+      expiresIn: tokens.expiresAt - now,
+      issuer: claims.iss,
+      audience: claims.aud,
+      issuedAt: typeof claims.iat === "number" ? isoTime(claims.iat) : undefined,
+    },
+    refresh: {
+      stored: !!tokens.refreshToken,
+      // the access token is refreshed automatically on the next request once this is true
+      due: tokens.expiresAt <= now + 30,
+      expiresAt: refreshExp != null ? isoTime(refreshExp) : undefined,
+      expiresIn: refreshExp != null ? refreshExp - now : undefined,
+    },
+    claims: access?.claims,
+  };
+}
+
+auth
+  .command("whoami")
+  .description("Show who is logged in: email, subject, scopes, token expiry and refresh status")
+  .option("--json", "Output as JSON (includes the decoded access token claims)")
+  .action(async (opts: { json?: boolean }) => {
+    try {
+      const tokens = await loadTokenBundle();
+      if (!tokens) {
+        log.warn(`Not logged in. Try: ${cfg.appName} auth login --email you@example.com`);
+        process.exitCode = 1;
+        return;
+      }
+      const info = describeTokens(tokens);
+      if (opts.json) {
+        log.info(JSON.stringify(info, null, 2));
+        return;
+      }
+
+      const at = info.accessToken;
+      const rows: Array<[string, string | undefined]> = [
+        ["Context", `${info.context} (${info.apiBase})`],
+        ["Email", info.email],
+        ["Subject", info.subject],
+        ["Scopes", info.scopes.join(" ") || undefined],
+        ["Token", at.format],
+        ["Issuer", at.issuer],
+        ["Audience", Array.isArray(at.audience) ? at.audience.join(", ") : at.audience],
+        ["Expires", `${at.expiresAt} (${at.expiresIn > 0 ? fromNow(at.expiresIn) : paint.red(`expired ${fromNow(at.expiresIn)}`)})`],
+        [
+          "Refresh",
+          !info.refresh.stored
+            ? paint.red(`no refresh token; run ${cfg.appName} auth login`)
+            : [
+              info.refresh.due ? paint.yellow("due on the next request") : "not needed yet",
+              info.refresh.expiresAt ? `refresh token expires ${info.refresh.expiresAt} (${fromNow(info.refresh.expiresIn!)})` : "",
+            ].filter(Boolean).join("; "),
+        ],
+      ];
+      const width = Math.max(...rows.map(([k]) => k.length));
+      log.info(rows.filter(([, v]) => v).map(([k, v]) => `${paint.dim(k.padEnd(width))}  ${v}`).join("\n"));
+    } catch (e: unknown) {
+      log.error("Failed to read tokens:", e instanceof Error ? e.message : String(e));
+      process.exitCode = 1;
+    }
+  });
+
+auth
+  .command("token")
+  .description("Print a valid access token to stdout, e.g. for curl (refreshed first when about to expire)")
+  .option("--refresh", "Refresh the access token even if it is still valid")
+  .option("--show", "Print the token even when stdout is a terminal")
+  .action(async (opts: { refresh?: boolean; show?: boolean }) => {
+    if (process.stdout.isTTY && !opts.show) {
+      log.error("Refusing to print an access token to the terminal. Pipe it to another command, or pass --show.");
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      let tokens = await loadTokenBundle();
+      if (!tokens) {
+        log.error(`Not logged in. Try: ${cfg.appName} auth login --email you@example.com`);
+        process.exitCode = 1;
+        return;
+      }
+      if (opts.refresh || tokens.expiresAt <= Math.floor(Date.now() / 1000) + 30) {
+        await refreshAccessToken();
+        tokens = await loadTokenBundle();
+        if (!tokens) throw new Error("No tokens after refresh.");
+      }
+      process.stdout.write(tokens.accessToken + "\n");
+    } catch (e: unknown) {
+      log.error("Failed to get an access token:", e instanceof Error ? e.message : String(e));
+      process.exitCode = 1;
+    }
+  });
+
+auth
+  .command("contexts")
+  .description("List named contexts (API URL and tokens); * marks the active one")
+  .option("--json", "Output as JSON")
+  .action(async (opts: { json?: boolean }) => {
+    try {
+      const current = activeContextName();
+      const rows = [];
+      for (const c of listContexts()) {
+        const tokens = await loadTokens<StoredTokens>(c.account).catch(() => null);
+        rows.push({
+          name: c.name,
+          apiBase: c.apiBase,
+          active: c.name === current,
+          loggedIn: !!tokens,
+          email: tokens?.subject?.email,
+        });
+      }
+      if (opts.json) {
+        log.info(JSON.stringify(rows, null, 2));
+        return;
+      }
+      const width = Math.max(...rows.map((r) => r.name.length));
+      log.info(rows.map((r) =>
+        [
+          r.active ? "*" : " ",
+          r.name.padEnd(width),
+          r.apiBase,
+          r.loggedIn ? paint.green(r.email ?? "logged in") : paint.dim("not logged in"),
+        ].join("  ")
+      ).join("\n"));
+    } catch (e: unknown) {
+      log.error("Failed to list contexts:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+auth
+  .command("use <name:string>")
+  .description("Make a context the default for later commands")
+  .action(async (name: string) => {
+    if (!contextExists(name)) {
+      log.error(`Unknown context "${name}". Create it with: ${cfg.appName} auth login --context ${name}`);
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      await useContext(name);
+      log.info(`✓ Using context ${name}.`);
+    } catch (e: unknown) {
+      log.error("Failed to switch context:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+const keychain = auth
+  .command("keychain")
+  .description(`Manage where tokens are stored (backend: ${cfg.appName.toUpperCase()}_KEYCHAIN_BACKEND)`)
+  .action(function (this: Command) {
+    this.outputHelp();
+  });
+
+keychain
+  .command("migrate")
+  .description(`Move the tokens of every context to another keychain backend (${KEYCHAIN_BACKENDS.join(", ")})`)
+  .requiredOption(
+    "--to <backend:string>",
+    "Backend to move the tokens to (prompt asks for its passphrase once per command run)",
+  )
+  .option("--from <backend:string>", "Backend to move from (default: the configured one)")
+  .option("--keep", "Leave the tokens in the old backend as well")
+  .action(async (opts: { to: string; from?: string; keep?: boolean }) => {
+    try {
+      const from = opts.from ?? keychainBackend();
+      const to = opts.to;
+      if (!isKeychainBackend(from) || !isKeychainBackend(to)) {
+        const bad = isKeychainBackend(from) ? to : from;
+        log.error(`Unknown keychain backend "${bad}". Use one of: ${KEYCHAIN_BACKENDS.join(", ")}`);
+        process.exitCode = 1;
+        return;
+      }
+      if (from === to) {
+        log.error(`Tokens are already in the ${from} backend.`);
+        return;
+      }
+
+      const contexts = listContexts();
+      const moved = await migrateTokens(from, to, contexts.map((c) => c.account), { keep: opts.keep });
+      if (!moved.length) {
+        log.warn(`No tokens found in the ${from} backend.`);
+        return;
+      }
+      const names = contexts.filter((c) => moved.includes(c.account)).map((c) => c.name);
+      log.info(`✓ ${opts.keep ? "Copied" : "Moved"} tokens of ${names.join(", ")} from ${from} to ${to}.`);
+      if (keychainBackend() !== to) {
+        log.info(
+          `Now set ${cfg.appName.toUpperCase()}_KEYCHAIN_BACKEND=${to} (e.g. in your shell profile or .env) so ${cfg.appName} reads them from there.`,
+        );
+      }
+    } catch (e: unknown) {
+      log.error("Failed to migrate tokens:", e instanceof Error ? e.message : String(e));
+      process.exitCode = 1;
+    }
+  });
+
+type RekeyOpts = { kdf?: string; iterations?: string; newPassphrase?: boolean };
+
+keychain
+  .command("rekey")
+  .description("Re-encrypt stored tokens after a passphrase change, or with stronger key derivation (file and prompt backends)")
+  .option("--kdf <name:string>", "Key derivation for the re-encrypted files: pbkdf2 or scrypt (default: keep each file's)")
+  .option("--iterations <n:string>", `PBKDF2 iterations with --kdf pbkdf2 (default ${PBKDF2_RECOMMENDED_ITERATIONS})`)
+  .option("--new-passphrase", "prompt backend: choose a new passphrase")
+  .action(async (opts: RekeyOpts) => {
+    const env = cfg.appName.toUpperCase();
+    let kdf: KdfParams | undefined;
+    if (opts.kdf === "scrypt") {
+      kdf = SCRYPT_DEFAULTS;
+    } else if (opts.kdf === "pbkdf2") {
+      const iterations = opts.iterations ? Number(opts.iterations) : PBKDF2_RECOMMENDED_ITERATIONS;
+      if (!Number.isInteger(iterations) || iterations < 100_000) {
+        log.error("--iterations must be a whole number of at least 100000.");
+        return;
+      }
+      kdf = { name: "PBKDF2", hash: "SHA-256", iterations };
+    } else if (opts.kdf) {
+      log.error("--kdf must be pbkdf2 or scrypt.");
+      return;
+    } else if (opts.iterations) {
+      log.error("--iterations needs --kdf pbkdf2.");
+      return;
+    }
+
+    try {
+      const backend = keychainBackend();
+      if (opts.newPassphrase && backend !== "prompt") {
+        log.error(
+          `With the ${backend} backend the passphrase comes from ${env}_KEYCHAIN_PASSPHRASE: set it to the new value and run rekey again.`,
+        );
+        return;
+      }
+      const current = await keychainPassphrase();
+      let newPassphrase = current;
+      if (opts.newPassphrase) {
+        if (!process.stdin.isTTY) {
+          log.error("--new-passphrase needs an interactive terminal.");
+          process.exitCode = 1;
+          return;
+        }
+        const first = await Secret.prompt({ message: "New keychain passphrase:" });
+        if (!first) return;
+        if ((await Secret.prompt({ message: "Repeat the new passphrase:" })) !== first) {
+          log.error("The passphrases do not match.");
+          return;
+        }
+        newPassphrase = first;
+      }
+
+      const contexts = listContexts();
+      const nameOf = (account: string) => contexts.find((c) => c.account === account)?.name ?? account;
+      const { rekeyed, failed } = await rekeyTokens(contexts.map((c) => c.account), {
+        // A previous passphrase from the environment, the current one, then the machine-derived default
+        oldPassphrases: [process.env[`${env}_KEYCHAIN_OLD_PASSPHRASE`] ?? "", current, machinePassphrase()],
+        newPassphrase,
+        kdf,
+        askOld: process.stdin.isTTY
+          ? (account) => Secret.prompt({ message: `Previous passphrase for context ${nameOf(account)} (empty to skip):` })
+          : undefined,
+      });
+
+      for (const r of rekeyed) log.info(`✓ ${nameOf(r.account)}: ${r.from} → ${r.to}`);
+      if (failed.length) {
+        log.error(
+          `Could not decrypt the tokens of ${failed.map(nameOf).join(", ")}. Pass the old passphrase in ${env}_KEYCHAIN_OLD_PASSPHRASE, or sign in again with '${cfg.appName} auth login'.`,
+        );
+        process.exitCode = 1;
+      } else if (!rekeyed.length) {
+        log.warn(`No stored tokens found in the ${backend} backend.`);
+      }
+    } catch (e: unknown) {
+      log.error("Failed to rekey tokens:", e instanceof Error ? e.message : String(e));
+      process.exitCode = 1;
+    }
+  });
+
 export const authCommand = auth;
@@ -0,0 +1,78 @@
+import { Command } from "commander";
+import * as path from "node:path";
+import { promises as fs } from "node:fs";
+import * as api from "../lib/api";
+import { normalizeEntry, parseEntries } from "../lib/blocklist";
+import { cfg } from "../lib/config";
+import { log } from "../lib/log";
+
+type ListOpts = { json?: boolean };
+type AddOpts = { fromFile?: string };
+
+const block = new Command("block")
+  .description("Manage the employer blocklist (companies that never see your profiles)")
+  .action(function (this: Command) {
+    this.outputHelp();
+  });
+
+block
+  .command("list")
+  .description("List blocked companies and domains")
+  .option("--json", "Print raw JSON")
+  .action(async (opts: ListOpts) => {
+    try {
+      const entries = await api.listBlockedEmployers();
+      if (opts.json) {
+        log.info(JSON.stringify(entries, null, 2));
+        return;
+      }
+      if (entries.length === 0) {
+        log.info("Blocklist is empty.");
+        log.info(`Block your current employer with: ${cfg.appName} block add "Acme Inc" acme.com`);
+        return;
+      }
+      const rows = entries.map((e, i) =>
+        [`${i + 1}. ${e.Entry}`, e.Kind ?? "-", (e.Created ?? "-").split("T")[0]].join("  ")
+      );
+      log.info("Blocked employers:\n" + rows.join("\n"));
+    } catch (e: unknown) {
+      log.error("Failed to list blocklist:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+block
+  .command("add [entries...]")
+  .description("Block companies by name or domain, e.g. \"Acme Inc\" acme.com")
+  .option("-f, --from-file <path:string>", "Import entries from a text file (one per line, # comments)")
+  .action(async (args: string[], opts: AddOpts) => {
+    try {
+      const entries = new Set(args.map(normalizeEntry).filter(Boolean));
+      if (opts.fromFile) {
+        const text = await fs.readFile(path.resolve(opts.fromFile), { encoding: "utf8" });
+        for (const e of parseEntries(text)) entries.add(e);
+      }
+      if (entries.size === 0) {
+        log.error("Provide at least one company name or domain, or --from-file <path>.");
+        return;
+      }
+      const added = await api.addBlockedEmployers([...entries]);
+      log.info(`✓ Blocked ${added.length || entries.size} employer(s).`);
+    } catch (e: unknown) {
+      log.error("Failed to update blocklist:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+block
+  .command("remove <entry:string>")
+  .description("Remove a company or domain from the blocklist")
+  .action(async (entry: string) => {
+    try {
+      await api.removeBlockedEmployer(normalizeEntry(entry));
+      log.info(`✓ Removed ${entry} from the blocklist.`);
+    } catch (e: unknown) {
+      log.error("Failed to update blocklist:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+export const blockCommand = block;
+export default blockCommand;
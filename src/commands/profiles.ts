@@ -1,41 +1,352 @@
 import { Command } from "commander";
-import { Confirm } from "../lib/prompt";
+import { Confirm, Select } from "../lib/prompt";
 import * as path from "node:path";
-import { promises as fs } from "node:fs";
+import { promises as fs, rmSync } from "node:fs";
+import { spawn } from "node:child_process";
+import os from "node:os";
+import process from "node:process";
 import * as api from "../lib/api";
 import type { Profile } from "../lib/api";
 import { parse as parseYaml } from "yaml";
+import { loadTokenBundle } from "../lib/auth";
+import { findBlockedMentions } from "../lib/blocklist";
 import { cfg } from "../lib/config";
-import { log } from "../lib/log";
+import {
+  diffValues,
+  formatDiff,
+  formatPath,
+  mergeValues,
+  previewValue,
+  setPath,
+  summarizeDiff,
+} from "../lib/diff";
+import { log, paint } from "../lib/log";
+import { findPiiInDocument, makeTag, namesFromEmail } from "../lib/pii";
+import { formatIssue, profileSchema, validateProfileYaml } from "../lib/schema";
+import type { SchemaIssue } from "../lib/schema";
+import {
+  manifestEntry,
+  readManifest,
+  readSyncState,
+  revisionOf,
+  sha256Hex,
+  shredFile,
+  syncStatePath,
+  writeManifest,
+  writePrivateFile,
+  writeProfileDraft,
+  writeSyncState,
+} from "../lib/sync";
+import { createProfileDraft, resumeUpload } from "../lib/upload";
+import type { CreatePayload } from "../lib/upload";
+import { isVaultPath } from "../lib/vault";
+import { approvalLabel, describeVisibility, parsePauseUntil, visibilityLabel } from "../lib/visibility";
+import { setYamlValues, updateYaml } from "../lib/yamledit";
+import type { YamlEdit } from "../lib/yamledit";
+import { redactForUpload } from "./redact";
 
 type ListOpts = { json?: boolean };
-type CreateOpts = { fromResume?: string; title?: string; out?: string };
+type CreateOpts = {
+  fromResume?: string;
+  title?: string;
+  out?: string;
+  allowPii?: boolean;
+  redact?: boolean;
+  review?: boolean;
+  yes?: boolean;
+};
 type LoadOpts = { out?: string; force?: boolean };
-type SaveOpts = { validateOnly?: boolean; yes?: boolean };
+type SaveOpts = { validateOnly?: boolean; yes?: boolean; force?: boolean; allowPii?: boolean };
 type DeleteOpts = { yes?: boolean };
+type PauseOpts = { until?: string };
+type DiffOpts = { json?: boolean; exitCode?: boolean };
+type PullOpts = { dryRun?: boolean; force?: boolean };
+type EditOpts = { allowPii?: boolean };
+type PushOpts = { dryRun?: boolean; force?: boolean; yes?: boolean; allowPii?: boolean };
 
-type ResumeUpload = { filename: string; content: string; encoding: "base64" };
-type CreatePayload = { Title?: string; Resume?: ResumeUpload } & Record<string, unknown>;
+type SyncStatus =
+  | "new"
+  | "modified"
+  | "unchanged"
+  | "deleted-on-server"
+  | "local-changes"
+  | "conflict"
+  | "invalid";
+type SyncRow = { status: SyncStatus; id: string; file: string; note?: string };
 
-// Minimal local validation helper.
-function validateProfilePayload(payload: unknown) {
-  const errors: string[] = [];
-  if (!payload || typeof payload !== "object") {
-    errors.push("Payload must be an object");
+function isTTY(): boolean {
+  return !!process.stdin.isTTY;
+}
+
+// Resolve a profile file argument: a bare alphanumeric ID maps to ./profile-{ID}.yaml.
+function resolveProfilePath(fileOrId: string) {
+  return /^[A-Za-z0-9]+$/.test(fileOrId)
+    ? path.resolve(`./profile-${fileOrId}.yaml`)
+    : path.resolve(fileOrId);
+}
+
+// Print schema issues as `file:line:col: severity: message`; returns the number of errors.
+function reportIssues(
+  file: string,
+  issues: SchemaIssue[],
+  label = path.relative(process.cwd(), file) || file,
+): number {
+  for (const issue of issues) {
+    const line = formatIssue(label, issue);
+    log.info(issue.severity === "error" ? paint.red(line) : paint.yellow(line));
   }
+  return issues.filter((i) => i.severity === "error").length;
+}
 
-  const obj = payload as Record<string, unknown>;
-  if (!obj.ProfileID || typeof obj.ProfileID !== "string") {
-    errors.push("Missing required field: ProfileID (string)");
+// Lint every profile draft (*.yaml, *.yml) in a directory; sets a failing exit code on errors.
+async function lintDirectory(dir: string) {
+  const files = (await fs.readdir(dir))
+    .filter((f) => /\.ya?ml$/i.test(f) && !f.startsWith("."))
+    .sort();
+  let errors = 0;
+  let warnings = 0;
+  for (const f of files) {
+    const file = path.join(dir, f);
+    const { issues } = validateProfileYaml(await fs.readFile(file, { encoding: "utf8" }));
+    const n = reportIssues(file, issues);
+    errors += n;
+    warnings += issues.length - n;
   }
+  log.info(`Validated ${files.length} file(s): ${errors} error(s), ${warnings} warning(s).`);
+  if (errors > 0) process.exitCode = 1;
+}
+
+const EDITOR_NOTE = "# mjctl:";
+
+// Run $VISUAL/$EDITOR through the shell like git does, so values such as "code --wait" or a quoted
+// path with spaces work. With sh the file is passed as a positional argument ("$@"), not pasted
+// into the command; cmd.exe has no such thing, so there it is appended in double quotes, which
+// Windows paths cannot contain.
+function runEditor(file: string): Promise<void> {
+  const editor = process.env["VISUAL"] || process.env["EDITOR"] ||
+    (process.platform === "win32" ? "notepad" : "vi");
+  return new Promise((resolve, reject) => {
+    const child = process.platform === "win32"
+      ? spawn(`${editor} "${file}"`, { shell: true, stdio: "inherit" })
+      : spawn("/bin/sh", ["-c", `${editor} "$@"`, editor, file], { stdio: "inherit" });
+    child.on("error", reject);
+    child.on("exit", (code) =>
+      code === 0 ? resolve() : reject(new Error(`Editor '${editor}' exited with code ${code}`))
+    );
+  });
+}
 
-  if (!obj.Title || typeof obj.Title !== "string") {
-    errors.push("Missing required field: title (string)");
+// Insert validation issues as YAML comments above the offending lines (previous notes removed).
+function annotateWithIssues(text: string, issues: SchemaIssue[]): string {
+  const lines = stripEditorNotes(text).split("\n");
+  const sorted = [...issues].sort((a, b) => (b.line ?? 0) - (a.line ?? 0));
+  for (const issue of sorted) {
+    const at = Math.max(0, (issue.line ?? 1) - 1);
+    const indent = /^\s*/.exec(lines[at] ?? "")?.[0] ?? "";
+    const where = issue.path.length ? ` (${formatPath(issue.path)})` : "";
+    lines.splice(at, 0, `${indent}${EDITOR_NOTE} ${issue.severity}: ${issue.message}${where}`);
   }
+  return lines.join("\n");
+}
 
-  // TODO: add more field checks as needed
+function stripEditorNotes(text: string): string {
+  return text.split("\n").filter((l) => !l.trimStart().startsWith(EDITOR_NOTE)).join("\n");
+}
+
+const STATUS_COLORS: Record<SyncStatus, (s: string) => string> = {
+  "new": paint.green,
+  "modified": paint.yellow,
+  "unchanged": paint.dim,
+  "deleted-on-server": paint.red,
+  "local-changes": paint.cyan,
+  "conflict": paint.red,
+  "invalid": paint.red,
+};
 
-  return errors;
+function printSyncReport(rows: SyncRow[]) {
+  const width = Math.max(...Object.keys(STATUS_COLORS).map((k) => k.length));
+  for (const r of rows) {
+    const note = r.note ? `  ${r.note}` : "";
+    log.info(`  ${STATUS_COLORS[r.status](r.status.padEnd(width))}  ${r.file}  (${r.id})${note}`);
+  }
+  const counts: Record<string, number> = {};
+  for (const r of rows) counts[r.status] = (counts[r.status] ?? 0) + 1;
+  log.info(Object.entries(counts).map(([k, n]) => `${n} ${k}`).join(", ") || "Nothing to sync.");
+}
+
+// Warn when a profile mentions an employer from the blocklist (skipped if it cannot be fetched).
+async function warnBlockedMentions(payload: unknown) {
+  let entries: string[];
+  try {
+    entries = (await api.listBlockedEmployers()).map((e) => e.Entry).filter(Boolean);
+  } catch (e) {
+    log.debug("Could not load the employer blocklist:", e);
+    return;
+  }
+  for (const m of findBlockedMentions(payload, entries)) {
+    log.warn(
+      `Profile mentions blocked employer "${m.entry}" ("${m.match}" in ${formatPath(m.path)}). ` +
+        `This can de-anonymize you.`,
+    );
+  }
+}
+
+// Scan every string field for PII before upload. Returns the payload to upload (with any values
+// redacted interactively, also rewritten in `file`) or null when the upload must be blocked.
+async function checkPii(
+  payload: Record<string, unknown>,
+  opts: { allowPii?: boolean; file?: string },
+): Promise<Record<string, unknown> | null> {
+  const tokens = await loadTokenBundle().catch(() => null);
+  const names = namesFromEmail(tokens?.subject?.email ?? tokens?.email);
+  const findings = findPiiInDocument(payload, { names })
+    // Server-managed fields (e.g. the anonymous ShortUrl) are not uploaded
+    .filter((f) => !profileSchema[String(f.path[0])]?.readOnly);
+  if (findings.length === 0) return payload;
+
+  log.warn(`Found ${findings.length} possible PII item(s) that could de-anonymize you:`);
+  for (const f of findings) log.info(`  ${f.kind.padEnd(8)} ${formatPath(f.path)}: ${previewValue(f.value, 60)}`);
+
+  if (opts.allowPii) {
+    log.warn("Uploading anyway (--allow-pii).");
+    return payload;
+  }
+  if (!isTTY()) {
+    log.error("Upload blocked. Redact these values, or re-run with --allow-pii if they are intended.");
+    process.exitCode = 1;
+    return null;
+  }
+
+  // Redacted leaves by path; only these are rewritten in `file`
+  const edits = new Map<string, YamlEdit>();
+  for (const f of findings) {
+    const choice = await Select.prompt({
+      message: `${f.kind} in ${formatPath(f.path)}: ${previewValue(f.value, 60)}`,
+      options: [
+        { name: "Redact (replace with a tag)", value: "redact" },
+        { name: "Keep (not sensitive)", value: "keep" },
+        { name: "Abort upload", value: "abort" },
+      ],
+    });
+    if (choice === "keep") continue;
+    if (choice !== "redact") {
+      log.info("Aborted by user.");
+      return null;
+    }
+    const tag = await makeTag(f.kind, f.value);
+    const leaf = f.path.reduce<unknown>((o, k) => (o as Record<string | number, unknown>)?.[k], payload);
+    const current = String(leaf ?? "");
+    let next: string;
+    if (current.includes(f.value)) {
+      next = current.split(f.value).join(tag);
+    } else {
+      // Findings come from normalized text; the field spells the value differently
+      const whole = await Select.prompt({
+        message: `The value is not spelled exactly like this in ${formatPath(f.path)}: ${previewValue(current, 60)}`,
+        options: [
+          { name: "Replace the whole field with the tag", value: "field" },
+          { name: "Keep the field as it is", value: "keep" },
+          { name: "Abort upload", value: "abort" },
+        ],
+      });
+      if (whole === "keep") continue;
+      if (whole !== "field") {
+        log.info("Aborted by user.");
+        return null;
+      }
+      next = tag;
+    }
+    setPath(payload, f.path, next);
+    edits.set(JSON.stringify(f.path), { path: f.path, value: next });
+  }
+
+  if (opts.file && edits.size > 0) {
+    const raw = await fs.readFile(opts.file, { encoding: "utf8" });
+    await fs.writeFile(opts.file, setYamlValues(raw, [...edits.values()], { quote: true }), { encoding: "utf8" });
+    log.info(`Redacted ${edits.size} field(s) in ${opts.file}`);
+  }
+  return payload;
+}
+
+// Detect edits made on the server after the local draft was downloaded. Returns the payload to
+// upload (possibly merged with the server edits) or null when the upload must not happen.
+async function checkServerChanges(
+  filePath: string,
+  id: string,
+  local: Record<string, unknown>,
+  opts: SaveOpts,
+): Promise<Record<string, unknown> | null> {
+  if (opts.force) return local;
+
+  const state = await readSyncState(filePath);
+  if (!state) {
+    log.warn(
+      `No server revision recorded for ${filePath}; edits made elsewhere cannot be detected. ` +
+        `Refresh the draft with: ${cfg.appName} profiles load ${id} --force`,
+    );
+    return local;
+  }
+
+  const server = await api.getProfile(id);
+  if (!server || revisionOf(server) === state.revision) return local;
+
+  const base: unknown = parseYaml(state.yaml) ?? {};
+  const remote: unknown = parseYaml(String(server.Yaml ?? "")) ?? {};
+  log.error(
+    `Profile ${id} was changed on the server after ${filePath} was downloaded (${state.fetchedAt}).`,
+  );
+  const remoteChanges = diffValues(base, remote);
+  if (remoteChanges.length > 0) {
+    log.info("Changes made on the server:\n" + formatDiff(remoteChanges).join("\n"));
+  }
+
+  if (opts.yes || !isTTY()) {
+    log.error(
+      "Refusing to overwrite server edits. Re-run with --force to overwrite them, or run interactively to merge.",
+    );
+    return null;
+  }
+
+  const choice = await Select.prompt({
+    message: "How do you want to proceed?",
+    options: [
+      { name: "Merge server changes into my draft", value: "merge" },
+      { name: "Overwrite the server copy with my draft", value: "overwrite" },
+      { name: "Abort", value: "abort" },
+    ],
+  });
+  if (choice === "overwrite") return local;
+  if (choice !== "merge") {
+    log.info("Aborted by user.");
+    return null;
+  }
+
+  const { merged, conflicts } = mergeValues(base, local, remote);
+  let result = merged as Record<string, unknown>;
+  for (const c of conflicts) {
+    const pick = await Select.prompt({
+      message: `Both sides changed ${formatPath(c.path)}`,
+      options: [
+        { name: `Keep mine:   ${previewValue(c.local, 60)}`, value: "local" },
+        { name: `Take server: ${previewValue(c.server, 60)}`, value: "server" },
+      ],
+    });
+    if (pick !== "local" && pick !== "server") {
+      log.info("Aborted by user.");
+      return null;
+    }
+    if (pick === "server") {
+      if (c.path.length === 0) result = c.server as Record<string, unknown>;
+      else setPath(result, c.path, c.server);
+    }
+  }
+
+  // Rebase the draft on the current server copy
+  const draft = await fs.readFile(filePath, { encoding: "utf8" });
+  await fs.writeFile(filePath, updateYaml(draft, result), { encoding: "utf8" });
+  await writeSyncState(filePath, server);
+  log.info(`Merged draft written to ${filePath}`);
+  return result;
 }
 
 const profiles = new Command("profiles")
@@ -69,14 +380,14 @@ profiles
         const title = p.Title || "(no title)";
         const category = p.Category || "-";
         const ShortUrl = p.ShortUrl || "-";
-        const visibility = p.Visibility || "-";
         const created = p.Created || "-";
         return [
           `${i + 1}. ${id}`,
           title,
           category,
           `[${ShortUrl}]`,
-          visibility,
+          visibilityLabel(p),
+          approvalLabel(p),
           created.split("T")[0],
         ].join("  ");
       });
@@ -103,57 +414,58 @@ profiles
     "-o, --out <path:string>",
     "Output path for profile YAML file",
   )
+  .option(
+    "--allow-pii",
+    "Create even if the title contains personal data",
+  )
+  .option(
+    "--redact",
+    "Redact the resume locally first and upload only the redacted text (see `redact --upload`)",
+  )
+  .option("--review", "With --redact: review each detected span before uploading")
+  .option("-y, --yes", "With --redact: upload without asking for confirmation")
   .action(async (opts: CreateOpts) => {
     // Enforce title when no resume is provided.
     if (!opts.fromResume && !opts.title) {
       log.error("The --title option is required when --from-resume is not provided.");
       return;
     }
+    if ((opts.redact || opts.review) && !opts.fromResume) {
+      log.error("--redact and --review need --from-resume.");
+      return;
+    }
+    if ((opts.review || opts.yes) && !opts.redact) {
+      log.error("--review and --yes work with --redact only.");
+      return;
+    }
 
+    const checked = await checkPii({ Title: opts.title }, { allowPii: opts.allowPii });
+    if (!checked) return;
     const payload: CreatePayload = {
-      Title: opts.title,
+      Title: checked.Title as string | undefined,
     };
 
     if (opts.fromResume) {
-      try {
-        const resumePath = path.resolve(opts.fromResume);
-        const bytes = await fs.readFile(resumePath);
-        const resumeContent = bytes.toString("base64");
-        payload.Resume = {
-          filename: path.basename(resumePath),
-          content: resumeContent,
-          encoding: "base64",
-        };
-      } catch (e: unknown) {
-        log.error("Failed to read resume file:", e instanceof Error ? e.message : String(e));
+      const resumePath = path.resolve(opts.fromResume);
+      if (isVaultPath(resumePath)) {
+        log.error("That is a redaction vault; it never leaves this machine. Pass the resume or its redacted copy.");
         return;
       }
+      if (opts.redact) {
+        const resume = await redactForUpload(resumePath, { review: opts.review, yes: opts.yes });
+        if (!resume) return;
+        payload.Resume = resume;
+      } else {
+        try {
+          payload.Resume = resumeUpload(path.basename(resumePath), await fs.readFile(resumePath));
+        } catch (e: unknown) {
+          log.error("Failed to read resume file:", e instanceof Error ? e.message : String(e));
+          return;
+        }
+      }
     }
 
-    let profile: Profile;
-    try {
-      profile = await api.createProfile(payload);
-      log.info(`Created profile on server: ${profile.ProfileID || "(unknown)"}`);
-    } catch (e: unknown) {
-      log.error("Create profile failed:", e instanceof Error ? e.message : String(e));
-      return;
-    }
-
-    const out = opts.out || `./profile-${profile.ProfileID}.yaml`;
-    const outFile = path.resolve(out);
-    try {
-      await fs.writeFile(outFile, String(profile.Yaml ?? ""), { encoding: "utf8" });
-      try {
-        await fs.chmod(outFile, 0o600);
-      } catch { /* ignore chmod errors */ }
-      log.info(`Saved created profile draft to ${outFile}`);
-    } catch (writeErr) {
-      log.error("Failed to save created profile locally:", writeErr);
-    }
-
-    log.info(
-      `Next steps: edit the file in your editor, then run: ${cfg.appName} profiles save <path>`,
-    );
+    await createProfileDraft(payload, opts.out);
   });
 
 profiles
@@ -168,7 +480,7 @@ profiles
     "-f, --force",
     "Overwrite existing file",
   )
-  .action(async (opts: LoadOpts, identifier: string) => {
+  .action(async (identifier: string, opts: LoadOpts) => {
     try {
       const profile: Profile | null = await api.getProfile(identifier);
       if (!profile) {
@@ -186,10 +498,7 @@ profiles
           // file does not exist -> continue
         }
       }
-      await fs.writeFile(resolved, String(profile.Yaml ?? ""), { encoding: "utf8" });
-      try {
-        await fs.chmod(resolved, 0o600);
-      } catch { /* ignore chmod errors */ }
+      await writeProfileDraft(resolved, profile);
       log.info(`Downloaded profile to ${resolved}`);
       log.info(`Edit the file and then run: ${cfg.appName} profiles save <path>`);
     } catch (e: unknown) {
@@ -200,38 +509,45 @@ profiles
 profiles
   .command("save <fileOrId:string>")
   .description(
-    "Validate a local profile file (path) or profile ID and save it to the server. If an alphanumeric ID is provided, the file is resolved as ./profile-{ID}.yaml.",
+    "Validate a local profile file (path) or profile ID and save it to the server. If an alphanumeric ID is provided, the file is resolved as ./profile-{ID}.yaml. With --validate-only a directory of drafts can be linted.",
   )
   .option(
     "--validate-only",
-    "Validate locally but do not upload",
+    "Validate locally but do not upload (exit code 1 on errors)",
   )
   .option(
     "-y, --yes",
     "Skip confirmation",
   )
-  .action(async (opts: SaveOpts, fileOrId: string) => {
+  .option(
+    "--force",
+    "Overwrite the server copy even if it changed after the file was downloaded",
+  )
+  .option(
+    "--allow-pii",
+    "Upload even if the profile contains personal data (emails, phone numbers, names, ...)",
+  )
+  .action(async (fileOrId: string, opts: SaveOpts) => {
     try {
-      const input = fileOrId;
-      const filePath = /^[A-Za-z0-9]+$/.test(input)
-        ? path.resolve(`./profile-${input}.yaml`)
-        : path.resolve(input);
+      const filePath = resolveProfilePath(fileOrId);
 
-      const raw = await fs.readFile(filePath, { encoding: "utf8" });
-
-      // Parse YAML into a JS object before validation/upload
-      let payload: unknown;
-      try {
-        payload = parseYaml(raw);
-      } catch (e: unknown) {
-        log.error("Failed to parse YAML:", e instanceof Error ? e.message : String(e));
+      const stat = await fs.stat(filePath).catch(() => null);
+      if (stat?.isDirectory()) {
+        if (!opts.validateOnly) {
+          log.error("Directories can only be validated. Use --validate-only to lint all drafts in it.");
+          return;
+        }
+        await lintDirectory(filePath);
         return;
       }
 
-      const errors = validateProfilePayload(payload);
-      if (errors.length > 0) {
-        log.error("Local validation errors:");
-        for (const err of errors) log.error(" -", err);
+      const raw = await fs.readFile(filePath, { encoding: "utf8" });
+
+      // Parse and validate against the profile schema before upload
+      const { payload, issues } = validateProfileYaml(raw);
+      if (reportIssues(filePath, issues) > 0) {
+        log.error("Local validation failed. Fix the errors above and retry.");
+        process.exitCode = 1;
         return;
       }
 
@@ -240,7 +556,19 @@ profiles
         return;
       }
 
-      const pobj = payload as Record<string, unknown>;
+      await warnBlockedMentions(payload);
+
+      let pobj = await checkPii(payload as Record<string, unknown>, {
+        allowPii: opts.allowPii,
+        file: filePath,
+      });
+      if (!pobj) return;
+      if (pobj.ProfileID) {
+        const checked = await checkServerChanges(filePath, String(pobj.ProfileID), pobj, opts);
+        if (!checked) return;
+        pobj = checked;
+      }
+
       const summary = `Title: ${String(pobj.Title ?? "(no title)")}  ID: ${
         String(pobj.ProfileID ?? "(new)")
       }`;
@@ -256,6 +584,10 @@ profiles
         const res: Profile = await api.updateProfile(String(pobj.ProfileID), pobj);
         log.info(`Updated profile: ${res.ProfileID}`);
 
+        // Remember the new server revision so the next save can detect remote edits
+        const latest = res.Yaml != null ? res : await api.getProfile(String(pobj.ProfileID));
+        if (latest) await writeSyncState(filePath, latest);
+
         // Check location fields on the returned Profile object
         {
           const missing: string[] = [];
@@ -285,6 +617,363 @@ profiles
     }
   });
 
+profiles
+  .command("edit <identifier:string>")
+  .description(
+    "Edit a profile in $VISUAL/$EDITOR: downloads it to a private temp file, validates it on close and uploads it after confirmation",
+  )
+  .option(
+    "--allow-pii",
+    "Upload even if the profile contains personal data (emails, phone numbers, names, ...)",
+  )
+  .action(async (identifier: string, opts: EditOpts) => {
+    let dir = "";
+    let file = "";
+    const removeTempDir = () => {
+      if (dir) rmSync(dir, { recursive: true, force: true });
+    };
+    try {
+      const profile = await api.getProfile(identifier);
+      if (!profile) {
+        log.error("Profile not found.");
+        return;
+      }
+      const id = String(profile.ProfileID ?? identifier);
+
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), `${cfg.appName}-`));
+      file = path.join(dir, `profile-${id}.yaml`);
+      // Last resort if the process exits while a prompt is pending
+      process.once("exit", removeTempDir);
+      await writeProfileDraft(file, profile);
+
+      const original = String(profile.Yaml ?? "");
+      let payload: unknown;
+      for (;;) {
+        await runEditor(file);
+        const text = stripEditorNotes(await fs.readFile(file, { encoding: "utf8" }));
+
+        const result = validateProfileYaml(text);
+        if (reportIssues(file, result.issues, path.basename(file)) === 0) {
+          payload = result.payload;
+          break;
+        }
+
+        const again = await Confirm.prompt({ message: "Validation failed. Re-open the editor to fix it?" });
+        if (!again) {
+          log.info("Aborted by user. Nothing was uploaded.");
+          return;
+        }
+        await fs.writeFile(file, annotateWithIssues(text, result.issues), { encoding: "utf8" });
+      }
+
+      const changes = diffValues(parseYaml(original) ?? {}, payload);
+      if (changes.length === 0) {
+        log.info("No changes.");
+        return;
+      }
+      log.info(formatDiff(changes).join("\n"));
+
+      await warnBlockedMentions(payload);
+      const cleaned = await checkPii(payload as Record<string, unknown>, { allowPii: opts.allowPii, file });
+      if (!cleaned) return;
+
+      const ok = await Confirm.prompt({ message: `Upload ${changes.length} change(s) to profile ${id}?` });
+      if (!ok) {
+        log.info("Aborted by user. Nothing was uploaded.");
+        return;
+      }
+
+      // The draft may have been open for a while: guard against concurrent server edits
+      const checked = await checkServerChanges(file, id, cleaned, {});
+      if (!checked) return;
+
+      const res = await api.updateProfile(id, checked);
+      log.info(`Updated profile: ${res.ProfileID ?? id}`);
+    } catch (e: unknown) {
+      log.error("Failed to edit profile:", e instanceof Error ? e.message : String(e));
+    } finally {
+      if (file) {
+        await shredFile(file);
+        await shredFile(syncStatePath(file));
+      }
+      if (dir) await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+      process.off("exit", removeTempDir);
+    }
+  });
+
+profiles
+  .command("pull [dir:string]")
+  .description(
+    "Download all profiles into a workspace directory as profile-<ID>.yaml (default: current directory)",
+  )
+  .option("--dry-run", "Only report what would change")
+  .option("-f, --force", "Overwrite local files that have unpushed edits")
+  .action(async (dirArg: string | undefined, opts: PullOpts) => {
+    try {
+      const dir = path.resolve(dirArg ?? ".");
+      if (!opts.dryRun) await fs.mkdir(dir, { recursive: true });
+      const manifest = await readManifest(dir);
+      const list = await api.listProfiles();
+      const rows: SyncRow[] = [];
+
+      for (const item of list) {
+        const id = String(item.ProfileID ?? "");
+        if (!id) continue;
+        const profile = await api.getProfile(id);
+        if (!profile) continue;
+
+        const entry = manifest.profiles[id];
+        const fileName = entry?.file ?? `profile-${id}.yaml`;
+        const file = path.join(dir, fileName);
+        const local = await fs.readFile(file, { encoding: "utf8" }).catch(() => null);
+        const yaml = String(profile.Yaml ?? "");
+
+        let status: SyncStatus;
+        if (local === null) {
+          status = "new";
+        } else if (!entry || sha256Hex(local) !== entry.sha256) {
+          // Untracked file or edited since the last sync: keep it unless forced
+          status = local === yaml ? "unchanged" : opts.force ? "modified" : "local-changes";
+        } else {
+          status = entry.revision === revisionOf(profile) && local === yaml ? "unchanged" : "modified";
+        }
+        rows.push({
+          status,
+          id,
+          file: fileName,
+          note: status === "local-changes" ? "kept; push it or use --force" : undefined,
+        });
+
+        if (opts.dryRun || status === "local-changes") continue;
+        if (status !== "unchanged") await writePrivateFile(file, yaml);
+        manifest.profiles[id] = manifestEntry(file, yaml, profile);
+      }
+
+      const onServer = new Set(list.map((p) => String(p.ProfileID ?? "")));
+      for (const [id, entry] of Object.entries(manifest.profiles)) {
+        if (onServer.has(id)) continue;
+        rows.push({ status: "deleted-on-server", id, file: entry.file, note: "local file kept" });
+        if (!opts.dryRun) delete manifest.profiles[id];
+      }
+
+      printSyncReport(rows);
+      if (opts.dryRun) {
+        log.info("Dry run: no files were written.");
+        return;
+      }
+      await writeManifest(dir, manifest);
+    } catch (e: unknown) {
+      log.error("Failed to pull profiles:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+profiles
+  .command("push [dir:string]")
+  .description(
+    "Validate and upload the profile files in a workspace directory that changed since the last pull/push",
+  )
+  .option("--dry-run", "Only report what would be uploaded")
+  .option("--force", "Upload even if the server copy changed since the last pull")
+  .option("-y, --yes", "Skip confirmation")
+  .option("--allow-pii", "Upload even if a profile contains personal data")
+  .action(async (dirArg: string | undefined, opts: PushOpts) => {
+    try {
+      const dir = path.resolve(dirArg ?? ".");
+      const manifest = await readManifest(dir);
+      const onServer = new Set((await api.listProfiles()).map((p) => String(p.ProfileID ?? "")));
+      const files = (await fs.readdir(dir))
+        .filter((f) => /\.ya?ml$/i.test(f) && !f.startsWith("."))
+        .sort();
+
+      const rows: SyncRow[] = [];
+      const uploads: Array<{ row: SyncRow; path: string; text: string; payload: Record<string, unknown> }> =
+        [];
+
+      for (const f of files) {
+        const file = path.join(dir, f);
+        const text = await fs.readFile(file, { encoding: "utf8" });
+        const { payload, issues } = validateProfileYaml(text);
+        const id = String((payload as Record<string, unknown> | undefined)?.ProfileID ?? "");
+        const entry = id ? manifest.profiles[id] : undefined;
+
+        if (issues.some((i) => i.severity === "error")) {
+          reportIssues(file, issues);
+          rows.push({ status: "invalid", id: id || "?", file: f });
+          continue;
+        }
+        if (!onServer.has(id)) {
+          rows.push({ status: "deleted-on-server", id, file: f, note: "skipped" });
+          continue;
+        }
+        if (entry && entry.sha256 === sha256Hex(text)) {
+          rows.push({ status: "unchanged", id, file: f });
+          continue;
+        }
+
+        const row: SyncRow = { status: entry ? "modified" : "new", id, file: f };
+        if (entry && !opts.force) {
+          const server = await api.getProfile(id);
+          if (server && revisionOf(server) !== entry.revision) {
+            rows.push({ ...row, status: "conflict", note: "changed on server; pull, merge or use --force" });
+            continue;
+          }
+        }
+        rows.push(row);
+        uploads.push({ row, path: file, text, payload: payload as Record<string, unknown> });
+      }
+
+      printSyncReport(rows);
+      if (opts.dryRun) {
+        log.info(`Dry run: ${uploads.length} profile(s) would be uploaded.`);
+        return;
+      }
+      if (uploads.length === 0) return;
+
+      for (const u of uploads) {
+        await warnBlockedMentions(u.payload);
+        const checked = await checkPii(u.payload, { allowPii: opts.allowPii, file: u.path });
+        if (!checked) {
+          log.error(`Stopped at ${u.row.file}. Nothing was uploaded.`);
+          return;
+        }
+        u.payload = checked;
+        // Interactive redactions rewrite the file; record what is actually uploaded
+        u.text = await fs.readFile(u.path, { encoding: "utf8" });
+      }
+
+      if (!opts.yes) {
+        const ok = await Confirm.prompt({ message: `Upload ${uploads.length} profile(s)?` });
+        if (!ok) {
+          log.info("Aborted by user.");
+          return;
+        }
+      }
+
+      for (const u of uploads) {
+        try {
+          await api.updateProfile(u.row.id, u.payload);
+          const latest = await api.getProfile(u.row.id);
+          if (latest) manifest.profiles[u.row.id] = manifestEntry(u.path, u.text, latest);
+          log.info(`✓ Uploaded ${u.row.file} (${u.row.id})`);
+        } catch (e: unknown) {
+          log.error(`Failed to upload ${u.row.file}:`, e instanceof Error ? e.message : String(e));
+        }
+      }
+      await writeManifest(dir, manifest);
+    } catch (e: unknown) {
+      log.error("Failed to push profiles:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+profiles
+  .command("diff <fileOrId:string>")
+  .description(
+    "Compare a local profile file (path) or profile ID with the server copy. Shows what 'save' would change.",
+  )
+  .option("--json", "Print changes as JSON")
+  .option("--exit-code", "Exit with status 1 when there are differences (2 on errors)")
+  .action(async (fileOrId: string, opts: DiffOpts) => {
+    try {
+      const filePath = resolveProfilePath(fileOrId);
+      const raw = await fs.readFile(filePath, { encoding: "utf8" });
+
+      let local: unknown;
+      try {
+        local = parseYaml(raw) ?? {};
+      } catch (e: unknown) {
+        log.error("Failed to parse YAML:", e instanceof Error ? e.message : String(e));
+        process.exitCode = 2;
+        return;
+      }
+
+      const localId = (local as Record<string, unknown>)?.ProfileID;
+      const id = localId ? String(localId) : /^[A-Za-z0-9]+$/.test(fileOrId) ? fileOrId : "";
+      if (!id) {
+        log.error("ProfileID is missing in the local file; cannot match it with a server profile.");
+        process.exitCode = 2;
+        return;
+      }
+
+      const server = await api.getProfile(id);
+      if (!server) {
+        log.error(`Profile not found on server: ${id}`);
+        process.exitCode = 2;
+        return;
+      }
+      const remote: unknown = parseYaml(String(server.Yaml ?? "")) ?? {};
+
+      const changes = diffValues(remote, local);
+      if (opts.exitCode && changes.length > 0) process.exitCode = 1;
+
+      if (opts.json) {
+        log.info(JSON.stringify({ ProfileID: id, file: filePath, changes }, null, 2));
+        return;
+      }
+
+      if (changes.length === 0) {
+        log.info(`No differences: ${filePath} matches server profile ${id}.`);
+        return;
+      }
+
+      const c = summarizeDiff(changes);
+      log.info(`--- server ${id}\n+++ local ${filePath}`);
+      log.info(formatDiff(changes).join("\n"));
+      log.info(
+        `${changes.length} change(s): ${c.add} added, ${c.remove} removed, ${c.change} changed, ${c.move} moved`,
+      );
+    } catch (e: unknown) {
+      log.error("Failed to diff profile:", e instanceof Error ? e.message : String(e));
+      process.exitCode = 2;
+    }
+  });
+
+profiles
+  .command("publish <identifier:string>")
+  .description("Make a profile visible to recruiters (after approval)")
+  .action(async (identifier: string) => {
+    try {
+      const res = await api.publishProfile(identifier);
+      log.info(describeVisibility(res));
+    } catch (e: unknown) {
+      log.error("Failed to publish profile:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+profiles
+  .command("hide <identifier:string>")
+  .description("Hide a profile from recruiters")
+  .action(async (identifier: string) => {
+    try {
+      const res = await api.hideProfile(identifier);
+      log.info(describeVisibility(res));
+    } catch (e: unknown) {
+      log.error("Failed to hide profile:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+profiles
+  .command("pause <identifier:string>")
+  .description("Hide a profile now and publish it again automatically after a date")
+  .requiredOption(
+    "--until <date:string>",
+    "Date to publish again (YYYY-MM-DD), or a duration from today such as 30d, 2w or 3m",
+  )
+  .action(async (identifier: string, opts: PauseOpts) => {
+    let until: string;
+    try {
+      until = parsePauseUntil(String(opts.until ?? ""));
+    } catch (e: unknown) {
+      log.error(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    try {
+      const res = await api.pauseProfile(identifier, until);
+      log.info(describeVisibility(res));
+    } catch (e: unknown) {
+      log.error("Failed to pause profile:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
 profiles
   .command("delete <identifier:string>")
   .description("Delete a profile")
@@ -292,7 +981,7 @@ profiles
     "-y, --yes",
     "Skip confirmation",
   )
-  .action(async (opts: DeleteOpts, identifier: string) => {
+  .action(async (identifier: string, opts: DeleteOpts) => {
     try {
       if (!opts.yes) {
         const ok = await Confirm.prompt({ message: `Delete profile ${identifier}?` });
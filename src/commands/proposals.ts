@@ -0,0 +1,319 @@
+import { Command } from "commander";
+import process from "node:process";
+import { Confirm, Input, MultiSelect } from "../lib/prompt";
+import * as api from "../lib/api";
+import type { Identity, IdentityField, Proposal, ProposalFilter } from "../lib/api";
+import { cfg } from "../lib/config";
+import { log } from "../lib/log";
+import { fmtDate, fmtStatus, headline, proposalFilter, proposalRow, STATUSES } from "../lib/proposals";
+import { appendRevealLog, readRevealLog, revealLogPath } from "../lib/reveals";
+
+type ListOpts = { profile?: string; status?: string; since?: string; until?: string; json?: boolean };
+type ShowOpts = { json?: boolean };
+type ActionOpts = { yes?: boolean; json?: boolean };
+type DeclineOpts = ActionOpts & { reason?: string };
+type RevealOpts = { fields?: string; yesReveal?: boolean };
+
+// CLI names for identity fields, in display order
+const IDENTITY_FIELDS: Array<[string, IdentityField]> = [
+  ["name", "FullName"],
+  ["email", "Email"],
+  ["phone", "Phone"],
+  ["linkedin", "LinkedIn"],
+  ["github", "Github"],
+  ["website", "Website"],
+];
+
+function isTTY() {
+  return !!process.stdin.isTTY;
+}
+
+function printDetails(p: Proposal) {
+  const rows: Array<[string, unknown]> = [
+    ["Proposal", p.ProposalID],
+    ["Status", fmtStatus(p.Status)],
+    ["Profile", p.ProfileID],
+    ["Company", p.Company],
+    ["Recruiter", p.Recruiter],
+    ["Job title", p.JobTitle],
+    ["Location", p.Location],
+    ["Remote", p.Remote],
+    ["Salary", p.Salary],
+    ["Job URL", p.JobUrl],
+    ["Received", fmtDate(p.Created)],
+    ["Decline reason", p.DeclineReason],
+  ];
+  const lines = rows
+    .filter(([, v]) => v != null && v !== "")
+    .map(([k, v]) => `${(k + ":").padEnd(16)}${String(v)}`);
+  log.info(lines.join("\n"));
+  if (p.Description) log.info(`\n${p.Description}`);
+}
+
+function parseFields(list: string): IdentityField[] {
+  const out: IdentityField[] = [];
+  for (const raw of list.split(",").map((x) => x.trim().toLowerCase()).filter(Boolean)) {
+    const hit = IDENTITY_FIELDS.find(([name, field]) => name === raw || field.toLowerCase() === raw);
+    if (!hit) {
+      throw new Error(`Unknown field "${raw}". Use: ${IDENTITY_FIELDS.map(([n]) => n).join(", ")}`);
+    }
+    if (!out.includes(hit[1])) out.push(hit[1]);
+  }
+  return out;
+}
+
+// Ask which identity fields to share; only fields the account has a value for are offered.
+async function chooseFields(identity: Identity): Promise<IdentityField[]> {
+  const options = IDENTITY_FIELDS
+    .filter(([, field]) => identity[field])
+    .map(([name, field]) => ({ name: `${name}: ${identity[field]}`, value: field, checked: field === "Email" }));
+  if (options.length === 0) return [];
+  return (await MultiSelect.prompt({ message: "Fields to reveal (space to toggle)", options })) ?? [];
+}
+
+const sameCompany = (a: string, b: string) =>
+  a.trim().replace(/\s+/g, " ").toLowerCase() === b.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Print the result of a status change (raw JSON when --json is set).
+function printResult(p: Proposal, opts: ActionOpts, done: string) {
+  if (opts.json) {
+    log.info(JSON.stringify(p, null, 2));
+    return;
+  }
+  log.info(`✓ ${done}: ${headline(p)} (${p.ProposalID ?? "-"})`);
+}
+
+const proposals = new Command("proposals")
+  .description("Job proposals from recruiters")
+  .action(function (this: Command) {
+    this.outputHelp();
+  });
+
+proposals
+  .command("list")
+  .description("List proposals (human table). Use --json for raw output")
+  .option("--profile <id:string>", "Only proposals for this profile")
+  .option("--status <status:string>", `Filter by status (${STATUSES.join(", ")})`)
+  .option("--since <date:string>", "Received on or after date (YYYY-MM-DD)")
+  .option("--until <date:string>", "Received on or before date (YYYY-MM-DD)")
+  .option("--json", "Print raw JSON")
+  .action(async (opts: ListOpts) => {
+    let filter: ProposalFilter;
+    try {
+      filter = proposalFilter(opts);
+    } catch (e: unknown) {
+      log.error(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    try {
+      const list = await api.listProposals(filter);
+      if (opts.json) {
+        log.info(JSON.stringify(list, null, 2));
+        return;
+      }
+      if (list.length === 0) {
+        log.info("No proposals found.");
+        log.info(`Make sure a profile is published: ${cfg.appName} profiles list`);
+        return;
+      }
+      const rows = list.map(proposalRow);
+      log.info("Proposals:\n" + rows.join("\n"));
+    } catch (e: unknown) {
+      log.error("Failed to list proposals:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+proposals
+  .command("show <proposalId:string>")
+  .description("Show full job details of a proposal")
+  .option("--json", "Print raw JSON")
+  .action(async (id: string, opts: ShowOpts) => {
+    try {
+      const p = await api.getProposal(id);
+      if (!p) {
+        log.error("Proposal not found.");
+        return;
+      }
+      if (opts.json) {
+        log.info(JSON.stringify(p, null, 2));
+        return;
+      }
+      printDetails(p);
+    } catch (e: unknown) {
+      log.error("Failed to get proposal:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+proposals
+  .command("accept <proposalId:string>")
+  .description("Accept a proposal (your identity stays hidden until you reveal it)")
+  .option("-y, --yes", "Skip confirmation")
+  .option("--json", "Print raw JSON")
+  .action(async (id: string, opts: ActionOpts) => {
+    try {
+      if (!opts.yes) {
+        const ok = await Confirm.prompt({ message: `Accept proposal ${id}?` });
+        if (!ok) {
+          log.info("Aborted by user.");
+          return;
+        }
+      }
+      printResult(await api.acceptProposal(id), opts, "Accepted");
+    } catch (e: unknown) {
+      log.error("Failed to accept proposal:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+proposals
+  .command("decline <proposalId:string>")
+  .description("Decline a proposal")
+  .option("-r, --reason <text:string>", "Optional reason shared with the recruiter")
+  .option("-y, --yes", "Skip confirmation")
+  .option("--json", "Print raw JSON")
+  .action(async (id: string, opts: DeclineOpts) => {
+    try {
+      if (!opts.yes) {
+        const ok = await Confirm.prompt({ message: `Decline proposal ${id}?` });
+        if (!ok) {
+          log.info("Aborted by user.");
+          return;
+        }
+      }
+      printResult(await api.declineProposal(id, opts.reason?.trim() || undefined), opts, "Declined");
+    } catch (e: unknown) {
+      log.error("Failed to decline proposal:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+proposals
+  .command("archive <proposalId:string>")
+  .description("Archive a proposal")
+  .option("--json", "Print raw JSON")
+  .action(async (id: string, opts: ActionOpts) => {
+    try {
+      printResult(await api.archiveProposal(id), opts, "Archived");
+    } catch (e: unknown) {
+      log.error("Failed to archive proposal:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+proposals
+  .command("reveal <proposalId:string>")
+  .description("Reveal your contact details to the recruiter of an accepted proposal")
+  .option("--fields <list:string>", `Comma-separated fields to share (${IDENTITY_FIELDS.map(([n]) => n).join(", ")})`)
+  .option(
+    "--yes-reveal",
+    "Allow revealing without a terminal (scripts); interactive runs still ask you to type the company name",
+  )
+  .action(async (id: string, opts: RevealOpts) => {
+    try {
+      if (!opts.yesReveal && !isTTY()) {
+        log.error("Refusing to reveal your identity non-interactively. Pass --yes-reveal to confirm.");
+        process.exitCode = 1;
+        return;
+      }
+      const requested = opts.fields != null ? parseFields(opts.fields) : null;
+      if (requested && requested.length === 0) {
+        log.error("--fields must list at least one field.");
+        return;
+      }
+      if (!requested && !isTTY()) {
+        log.error("Pass --fields to choose what to reveal, e.g. --fields email,phone");
+        process.exitCode = 1;
+        return;
+      }
+
+      const p = await api.getProposal(id);
+      if (!p) {
+        log.error("Proposal not found.");
+        return;
+      }
+      if (p.Status !== "accepted") {
+        log.error(`Proposal ${id} is ${p.Status || "not accepted"}. Accept it first: ${cfg.appName} proposals accept ${id}`);
+        return;
+      }
+
+      const identity = await api.getIdentity();
+      const fields = requested ?? await chooseFields(identity);
+      const missing = fields.filter((f) => !identity[f]);
+      if (missing.length) {
+        log.error(`Your account has no value for: ${missing.join(", ")}`);
+        return;
+      }
+      if (fields.length === 0) {
+        log.info("Nothing selected; nothing was revealed.");
+        return;
+      }
+
+      const company = p.Company || "";
+      log.info(`The following will be shared with ${p.Recruiter || "the recruiter"} at ${company || "(unknown company)"}:`);
+      log.info(`  Proposal: ${headline(p)} (${p.ProposalID ?? id})`);
+      for (const f of fields) log.info(`  ${(f + ":").padEnd(10)}${identity[f]}`);
+      log.warn("This cannot be undone: the recruiter keeps these details.");
+
+      // On a terminal the typed confirmation is always required; --yes-reveal only unlocks scripts
+      if (isTTY()) {
+        const expected = company || "reveal";
+        const typed = await Input.prompt({
+          message: company ? `Type the company name (${company}) to confirm` : `Type "reveal" to confirm`,
+        });
+        if (!typed || !sameCompany(typed, expected)) {
+          log.info(`${company ? "Company name" : "Confirmation"} did not match. Aborted; nothing was revealed.`);
+          return;
+        }
+      }
+
+      const res = await api.revealIdentity(id, fields);
+      log.info(`✓ Revealed ${fields.join(", ")} to ${company || "the recruiter"}.`);
+      // The reveal has happened; a failing log write must not report it as failed
+      try {
+        await appendRevealLog({
+          at: res.Revealed ?? new Date().toISOString(),
+          ProposalID: p.ProposalID ?? id,
+          ProfileID: p.ProfileID,
+          Company: p.Company,
+          Recruiter: p.Recruiter,
+          Fields: fields,
+        });
+      } catch (e: unknown) {
+        log.warn(
+          `The reveal succeeded but was not logged to ${revealLogPath()}:`,
+          e instanceof Error ? e.message : String(e),
+        );
+      }
+    } catch (e: unknown) {
+      log.error("Failed to reveal identity:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+proposals
+  .command("reveals")
+  .description("Show the local log of identity reveals")
+  .option("--json", "Print raw JSON")
+  .action(async (opts: ShowOpts) => {
+    try {
+      const entries = await readRevealLog();
+      if (opts.json) {
+        log.info(JSON.stringify(entries, null, 2));
+        return;
+      }
+      if (entries.length === 0) {
+        log.info(`No reveals logged (${revealLogPath()}).`);
+        return;
+      }
+      const rows = entries.map((e, i) =>
+        [
+          `${i + 1}. ${e.at.replace("T", " ").slice(0, 16)}`,
+          e.ProposalID,
+          `${e.Recruiter || "-"} @ ${e.Company || "-"}`,
+          e.Fields.join(","),
+        ].join("  ")
+      );
+      log.info("Reveals:\n" + rows.join("\n"));
+    } catch (e: unknown) {
+      log.error("Failed to read reveal log:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+export const proposalsCommand = proposals;
+export default proposalsCommand;
@@ -1,68 +1,387 @@
 import { Command } from "commander";
+import * as path from "node:path";
+import process from "node:process";
+import { promises as fs } from "node:fs";
 import { redactResumeFile } from "../lib/pii";
-import type { LLMFlagger } from "../lib/pii";
-import { cfg } from "../lib/config";
-import { log } from "../lib/log";
+import type { Kind, LLMFlagger, OutputFormat, RedactionMode, Result, Span } from "../lib/pii";
+import type { ReviewDecision } from "../lib/review";
+import { evaluateCorpus } from "../lib/evaluate";
+import type { EvalReport, Metrics } from "../lib/evaluate";
+import { KINDS, MODES, parseRules } from "../lib/rules";
+import type { RedactionRules } from "../lib/rules";
+import { Confirm, Input, MultiSelect, Select } from "../lib/prompt";
+import { OllamaFlagger } from "../lib/flagger_ollama";
+import { parseEmployerList } from "../lib/orgloc";
+import type { EmployerEntry } from "../lib/orgloc";
+import { cfg, configDir } from "../lib/config";
+import { log, paint } from "../lib/log";
+import { createProfileDraft, resumeUpload } from "../lib/upload";
+import type { ResumeUpload } from "../lib/upload";
+
+type RedactOpts = {
+  out?: string;
+  format?: string;
+  flagger?: string;
+  model?: string;
+  flaggerUrl?: string;
+  employers?: string;
+  orgLoc?: boolean;
+  generalize?: boolean;
+  review?: boolean;
+  rules?: string;
+  vault?: boolean;
+  upload?: boolean;
+  profileOut?: string;
+  yes?: boolean;
+};
+
+type EvalOpts = { json?: boolean; verbose?: boolean; minF1?: string };
+
+const FLAGGERS = ["ollama"];
+const UPLOAD_NAME = "resume.redacted.txt"; // name of the uploaded file, see confirmUpload
+
+function makeFlagger(opts: RedactOpts): LLMFlagger | null {
+  if (opts.flagger !== "ollama") return null;
+  const ollama = new OllamaFlagger({ endpoint: opts.flaggerUrl, model: opts.model });
+  log.info(`Using flagger ${ollama.name()} at ${ollama.endpoint}`);
+  return ollama;
+}
+
+
+function isTTY() {
+  return !!process.stdin.isTTY;
+}
+
+// The span's line with the span highlighted (trimmed to ~60 chars either side)
+function inContext(text: string, start: number, end: number, highlight = paint.yellow) {
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const nl = text.indexOf("\n", end);
+  const lineEnd = nl < 0 ? text.length : nl;
+  const before = text.slice(Math.max(lineStart, start - 60), start);
+  const after = text.slice(end, Math.min(lineEnd, end + 60));
+  const flat = (s: string) => s.replace(/\n/g, " ⏎ ");
+  return `${flat(before)}${highlight(`[${flat(text.slice(start, end))}]`)}${flat(after)}`;
+}
+
+async function pickKind(current: Kind): Promise<Kind> {
+  const kind = await Select.prompt<Kind>({
+    message: "Kind",
+    options: KINDS.map((k) => ({ name: k === current ? `${k} (current)` : k, value: k })),
+  });
+  return kind ?? current;
+}
+
+async function pickMode(current?: RedactionMode): Promise<RedactionMode | undefined> {
+  const mode = await Select.prompt<RedactionMode | "default">({
+    message: "Mode",
+    options: [
+      { name: "default for the kind", value: "default" },
+      ...MODES.map((m) => ({ name: m === current ? `${m} (current)` : m, value: m })),
+    ],
+  });
+  if (mode === undefined) return current;
+  return mode === "default" ? undefined : mode;
+}
+
+// Walk through detected spans, then let the user mark extra text. Ctrl+C aborts without writing.
+async function reviewSpans(text: string, spans: Span[]): Promise<ReviewDecision[]> {
+  const cancelled = () => new Error("Review cancelled; nothing was written.");
+  const decisions: ReviewDecision[] = [];
+  log.info(`Reviewing ${spans.length} detected span(s).`);
+
+  for (const [i, s] of spans.entries()) {
+    let kind = s.kind;
+    let mode = s.mode;
+    log.info("");
+    log.info(paint.dim(`${i + 1}/${spans.length} · ${s.source ?? "?"}`));
+    log.info(`  ${inContext(text, s.start, s.end)}`);
+    let next: "accept" | "reject" | "rest" | undefined;
+    while (!next) {
+      const choice = await Select.prompt<"accept" | "reject" | "kind" | "mode" | "rest">({
+        message: `Redact as ${kind}${mode ? ` (${mode})` : ""}?`,
+        options: [
+          { name: "Accept", value: "accept" },
+          { name: "Reject (leave the text as is)", value: "reject" },
+          { name: "Change kind", value: "kind" },
+          { name: "Change mode", value: "mode" },
+          { name: "Accept this and all remaining", value: "rest" },
+        ],
+      });
+      if (choice === undefined) throw cancelled();
+      if (choice === "kind") kind = await pickKind(kind);
+      else if (choice === "mode") mode = await pickMode(mode);
+      else next = choice;
+    }
+    decisions.push({
+      action: next === "reject" ? "reject" : "accept",
+      start: s.start,
+      end: s.end,
+      value: s.value,
+      kind,
+      mode,
+    });
+    if (next === "rest") break; // the remaining spans stay as detected
+  }
+
+  log.info("");
+  for (;;) {
+    const needle = await Input.prompt({ message: "Extra text to redact (empty to finish)" });
+    if (needle === undefined) throw cancelled();
+    if (!needle.trim()) break;
+    const re = new RegExp(needle.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi");
+    const hits = [...text.matchAll(re)].map((m) => ({ start: m.index!, end: m.index! + m[0].length }));
+    if (!hits.length) {
+      log.warn("Not found in the text.");
+      continue;
+    }
+    const chosen = hits.length === 1 ? hits : await MultiSelect.prompt({
+      message: `Found ${hits.length} times. Redact which?`,
+      options: hits.map((h) => ({ name: inContext(text, h.start, h.end, (x) => x), value: h, checked: true })),
+    });
+    if (!chosen?.length) continue;
+    const kind = await pickKind("name");
+    const mode = await pickMode();
+    for (const h of chosen) {
+      decisions.push({ action: "add", start: h.start, end: h.end, value: text.slice(h.start, h.end), kind, mode });
+    }
+  }
+  return decisions;
+}
+
+// --rules file, or redact.yaml in the config dir when present
+async function loadRules(file?: string): Promise<{ rules: RedactionRules; path: string } | null> {
+  const p = file ? path.resolve(file) : path.join(configDir(), "redact.yaml");
+  const text = await fs.readFile(p, { encoding: "utf8" }).catch((e: unknown) => {
+    if (file) throw e;
+    return null;
+  });
+  if (text == null) return null;
+  try {
+    return { rules: parseRules(text), path: p };
+  } catch (e: unknown) {
+    throw new Error(`${p}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+// --employers file, or employers.txt in the config dir when present
+async function loadEmployers(file?: string): Promise<EmployerEntry[]> {
+  if (file) return parseEmployerList(await fs.readFile(path.resolve(file), { encoding: "utf8" }));
+  const text = await fs.readFile(path.join(configDir(), "employers.txt"), { encoding: "utf8" }).catch(() => null);
+  return text ? parseEmployerList(text) : [];
+}
+
+// Validate options, redact `file` and print what was written. Returns null after logging a failure.
+async function runRedaction(file: string, opts: RedactOpts): Promise<Result | null> {
+  const format = opts.format ?? "txt";
+  if (format !== "txt" && format !== "pdf") {
+    log.error("--format must be txt or pdf.");
+    return null;
+  }
+  if (opts.flagger && !FLAGGERS.includes(opts.flagger)) {
+    log.error(`--flagger must be one of: ${FLAGGERS.join(", ")}`);
+    return null;
+  }
+  if (opts.vault && format !== "txt") {
+    log.error("--vault works with --format txt only.");
+    return null;
+  }
+  if (opts.review && !isTTY()) {
+    log.error("--review needs an interactive terminal.");
+    process.exitCode = 1;
+    return null;
+  }
+
+  const useNER = true; // envvar MJ_PII_NE == 1
+  const flagger = makeFlagger(opts);
+
+  try {
+    const outBase = opts.out ? String(opts.out).replace(/\.[^.]+$/, "") : undefined;
+    const employers = opts.orgLoc === false ? [] : await loadEmployers(opts.employers);
+    const rules = await loadRules(opts.rules);
+    if (rules) log.info(`Using rules from ${rules.path}`);
+
+    const res = await redactResumeFile(file, {
+      useNER,
+      flagger,
+      previewLimit: 12,
+      outBase,
+      format: format as OutputFormat,
+      detectOrgLoc: opts.orgLoc !== false,
+      employers,
+      modes: opts.generalize ? { org: "generalize", loc: "generalize" } : undefined,
+      review: opts.review ? reviewSpans : undefined,
+      rules: rules?.rules,
+      rulesPath: rules?.path,
+      vault: opts.vault,
+    });
+
+    if (res.replayedDecisions) {
+      log.info(`Replayed ${res.replayedDecisions} review decision(s) from the previous report for this file.`);
+    }
+    log.info(`✓ Wrote: ${res.outRedactedPath}`);
+    log.info(`✓ Wrote: ${res.outReportPath}`);
+    if (res.outVaultPath) {
+      log.info(`✓ Wrote: ${res.outVaultPath} (encrypted, stays on this machine; restore with \`${cfg.appName} unredact\`)`);
+    }
+    log.info("PII counts:", res.counts);
+    if (res.flaggerError) {
+      log.warn(`Flagger failed, only rule-based detection was applied: ${res.flaggerError}`);
+    }
+    return res;
+  } catch (e: unknown) {
+    log.error("Failed to redact file:", e instanceof Error ? e.message : String(e));
+    return null;
+  }
+}
+
+// Show the start of the redacted text and ask before anything leaves the machine; without a
+// terminal only `yes` allows the upload. Only the redacted text is uploaded, whatever --format wrote
+// locally, and under a fixed name: the original file name often holds the candidate's name.
+async function confirmUpload(res: Result, yes?: boolean): Promise<ResumeUpload | null> {
+  const lines = res.redactedText.split("\n").filter((l) => l.trim());
+  log.info("");
+  log.info(`Redacted text to upload (${res.hits.length} span(s) redacted, ${res.redactedText.length} characters):`);
+  for (const l of lines.slice(0, 12)) log.info(paint.dim(`  ${l}`));
+  if (lines.length > 12) log.info(paint.dim(`  … ${lines.length - 12} more line(s) in ${res.outRedactedPath}`));
+
+  if (!yes) {
+    if (!isTTY()) {
+      log.error("Not uploading without confirmation: pass --yes to upload non-interactively.");
+      process.exitCode = 1;
+      return null;
+    }
+    const ok = await Confirm.prompt({ message: "Upload the redacted text and create a profile from it?" });
+    if (!ok) {
+      log.info("Upload cancelled. The redacted files are kept for local review.");
+      return null;
+    }
+  }
+  return resumeUpload(UPLOAD_NAME, res.redactedText);
+}
+
+// The `redact --upload` pipeline for other commands: redact with the default rules and
+// employers, show the result, and return the payload (null when cancelled or failed).
+export async function redactForUpload(file: string, opts: RedactOpts = {}): Promise<ResumeUpload | null> {
+  const res = await runRedaction(file, opts);
+  return res && (await confirmUpload(res, opts.yes));
+}
 
 export const redactCommand = new Command("redact")
-  .description("Redact PII from a resume file (PDF/TXT)")
+  .description("Redact PII from a resume file (PDF, DOCX, Markdown, HTML, RTF or plain text)")
   .arguments("<file:string>")
   .option(
     "--out <path:string>",
     "Optional output base path (without added suffix). e.g. --out ./resume.redacted",
   )
-  .option("--upload", "(not implemented) Upload redacted text to the API without prompting")
-  .action(async (opts: { out?: string; upload?: boolean }, file: string) => {
+  .option("--format <format:string>", "Redacted output format: txt (default) or pdf", "txt")
+  .option("--flagger <name:string>", `Extra local LLM pass to catch PII the rules miss (${FLAGGERS.join(", ")})`)
+  .option("--model <name:string>", `Model for the flagger (default: ${cfg.ollamaModel})`)
+  .option("--flagger-url <url:string>", `Flagger endpoint (default: ${cfg.ollamaUrl})`)
+  .option(
+    "--employers <file:string>",
+    "Your current/past employers, one per line (\"Name = description\" to control --generalize). Default: employers.txt in the config dir",
+  )
+  .option("--no-org-loc", "Skip employer and city detection")
+  .option("--generalize", "Replace employers and cities with a description (\"a bank\", \"a city in Germany\") instead of masking")
+  .option(
+    "--rules <file:string>",
+    "Redaction rules (custom patterns, deny/allow lists, per-kind modes). Default: redact.yaml in the config dir",
+  )
+  .option("--vault", `Keep an encrypted local vault so \`${cfg.appName} unredact\` can restore the original (txt output)`)
+  .option("--review", "Review each detected span (accept, reject, change kind or mode) and mark extra text")
+  .option("--upload", "Upload the redacted text (never the original file) and create a profile draft from it")
+  .option("--profile-out <path:string>", "With --upload: path for the profile YAML (default: ./profile-<ID>.yaml)")
+  .option("-y, --yes", "With --upload: do not ask for confirmation")
+  .action(async (file: string, opts: RedactOpts) => {
     if (!file) {
       log.error(`Usage: ${cfg.appName} redact <file>`);
       return;
     }
+    if (!opts.upload && opts.profileOut) {
+      log.error("--profile-out works with --upload only.");
+      return;
+    }
 
-    const useNER = true; // envvar MJ_PII_NE == 1
-    const flagger: LLMFlagger | null = null;
-
-    // Optional: dynamically load a local Ollama flagger in the future.
-    // if (useFlagger) {
-    //   try {
-    //     // Try to dynamically load an Ollama flagger implementation if present.
-    //     // This module is optional; proceed without a flagger if it isn't installed.
-    //     const mod = await import("../lib/flagger_ollama.ts");
-    //     if (typeof mod?.OllamaFlagger === "function") {
-    //       flagger = new mod.OllamaFlagger();
-    //     } else {
-    //       console.warn("Ollama flagger module found but exported symbol missing. Continuing without flagger.");
-    //     }
-    //   } catch (e) {
-    //     console.warn("Ollama flagger not available, continuing without flagger.");
-    //   }
-    // }
+    const res = await runRedaction(file, opts);
+    if (!res) return;
 
-    try {
-      const outBase = opts.out ? String(opts.out).replace(/\.[^.]+$/, "") : undefined;
+    if (!opts.upload) {
+      log.info("Review the redacted file locally before uploading.");
+      log.info(
+        `To upload the redacted text and generate a profile, re-run with --upload or use \`${cfg.appName} profiles create --from-resume <file> --redact\`.`,
+      );
+      return;
+    }
 
-      const res = await redactResumeFile(file, {
-        useNER,
-        flagger,
-        previewLimit: 12,
-        outBase,
-      });
+    const resume = await confirmUpload(res, opts.yes);
+    if (!resume) return;
+    await createProfileDraft({ Resume: resume }, opts.profileOut);
+  });
 
-      log.info(`✓ Wrote: ${res.outRedactedPath}`);
-      log.info(`✓ Wrote: ${res.outReportPath}`);
-      log.info("PII counts:", res.counts);
+function printMetrics(title: string, rows: Record<string, Metrics>) {
+  const head = [title.padEnd(10), "gold", "  tp", "  fp", "  fn", "precision", "recall", "    f1"].join("  ");
+  log.info(paint.dim(head));
+  for (const [name, m] of Object.entries(rows)) {
+    const f1 = m.f1.toFixed(3).padStart(6);
+    log.info([
+      name.padEnd(10),
+      String(m.gold).padStart(4),
+      String(m.tp).padStart(4),
+      String(m.fp).padStart(4),
+      String(m.fn).padStart(4),
+      m.precision.toFixed(3).padStart(9),
+      m.recall.toFixed(3).padStart(6),
+      m.f1 < 0.8 ? paint.red(f1) : m.f1 < 0.95 ? paint.yellow(f1) : paint.green(f1),
+    ].join("  "));
+  }
+}
 
-      if (opts.upload) {
-        log.warn(
-          "--upload is not implemented in this CLI version. The redacted file has been saved for local review.",
-        );
-      }
+function printReport(report: EvalReport, verbose?: boolean) {
+  printMetrics("kind", { ...report.byKind, overall: report.overall });
+  log.info("");
+  printMetrics("source", report.bySource);
+  log.info(paint.dim("(per source: recall is the share of all gold spans that layer found)"));
+  for (const f of report.files) {
+    if (f.error) log.warn(`${f.file}: ${f.error}`);
+    if (!verbose || (!f.missed.length && !f.spurious.length)) continue;
+    log.info("");
+    log.info(`${f.file}: ${f.tp} found, ${f.missed.length} missed, ${f.spurious.length} spurious`);
+    for (const m of f.missed) log.info(paint.red(`  - missed    ${m.kind.padEnd(8)} ${JSON.stringify(m.text)}`));
+    for (const m of f.spurious) {
+      log.info(paint.yellow(`  + spurious  ${m.kind.padEnd(8)} ${JSON.stringify(m.text)} (${m.source ?? "?"})`));
+    }
+  }
+}
 
-      log.info("Review the redacted file locally before uploading.");
-      log.info(
-        "To upload the redacted file and generate a profile, a separate command will be provided later.",
-      );
+redactCommand
+  .command("eval <dir:string>")
+  .description("Score redaction against a labeled corpus (<dir>/gold.jsonl): precision, recall and F1 per kind and per source")
+  .option("--json", "Print the full report as JSON")
+  .option("--verbose", "List missed and spurious spans per file")
+  .option("--min-f1 <score:string>", "Exit with code 1 when the overall F1 is below this value (for CI)")
+  .action(async (dir: string, _opts: EvalOpts, cmd: Command) => {
+    // --flagger/--model/--flagger-url are parsed by the parent command
+    const opts = cmd.optsWithGlobals<EvalOpts & RedactOpts>();
+    if (opts.flagger && !FLAGGERS.includes(opts.flagger)) {
+      log.error(`--flagger must be one of: ${FLAGGERS.join(", ")}`);
+      return;
+    }
+    const minF1 = opts.minF1 != null ? Number(opts.minF1) : undefined;
+    if (minF1 != null && !(minF1 >= 0 && minF1 <= 1)) {
+      log.error("--min-f1 must be a number between 0 and 1.");
+      return;
+    }
+    try {
+      const report = await evaluateCorpus(path.resolve(dir), { flagger: makeFlagger(opts) });
+      if (opts.json) log.info(JSON.stringify(report, null, 2));
+      else printReport(report, opts.verbose);
+      if (minF1 != null && report.overall.f1 < minF1) {
+        log.error(`Overall F1 ${report.overall.f1.toFixed(3)} is below --min-f1 ${minF1}.`);
+        process.exitCode = 1;
+      }
     } catch (e: unknown) {
-      log.error("Failed to redact file:", e instanceof Error ? e.message : String(e));
+      log.error("Failed to evaluate redaction:", e instanceof Error ? e.message : String(e));
+      process.exitCode = 1;
     }
   });
 
@@ -0,0 +1,65 @@
+import { Command } from "commander";
+import * as path from "node:path";
+import { promises as fs } from "node:fs";
+import type { Kind } from "../lib/pii";
+import { KINDS } from "../lib/rules";
+import { sha256Hex, writePrivateFile } from "../lib/sync";
+import { readVault, restoreText, VAULT_SUFFIX } from "../lib/vault";
+import { cfg } from "../lib/config";
+import { log } from "../lib/log";
+
+type UnredactOpts = { vault?: string; kinds?: string; out?: string };
+
+// "resume.redacted.txt" → "resume"
+function baseOf(file: string) {
+  return file.replace(/\.redacted\.txt$/i, "").replace(/\.[^./\\]+$/, "");
+}
+
+export const unredactCommand = new Command("unredact")
+  .description("Restore the original text of a redacted file from its local vault (see redact --vault)")
+  .arguments("<file:string>")
+  .option("--vault <path:string>", `Vault file (default: <base>${VAULT_SUFFIX} next to the redacted file)`)
+  .option("--kinds <list:string>", `Only restore these kinds, comma-separated (${KINDS.join(", ")})`)
+  .option("--out <path:string>", "Output file (default: <base>.unredacted.txt)")
+  .action(async (file: string, opts: UnredactOpts) => {
+    if (!file) {
+      log.error(`Usage: ${cfg.appName} unredact <file.redacted.txt>`);
+      return;
+    }
+    let kinds: Kind[] | undefined;
+    if (opts.kinds) {
+      kinds = opts.kinds.split(",").map((k) => k.trim()).filter(Boolean) as Kind[];
+      const unknown = kinds.filter((k) => !KINDS.includes(k));
+      if (unknown.length) {
+        log.error(`Unknown kind(s): ${unknown.join(", ")}. Use: ${KINDS.join(", ")}`);
+        return;
+      }
+    }
+
+    try {
+      const redactedPath = path.resolve(file);
+      const vaultPath = path.resolve(opts.vault ?? `${baseOf(redactedPath)}${VAULT_SUFFIX}`);
+      const outPath = path.resolve(opts.out ?? `${baseOf(redactedPath)}.unredacted.txt`);
+
+      const text = await fs.readFile(redactedPath, { encoding: "utf8" });
+      const vault = await readVault(vaultPath);
+      const textUnchanged = sha256Hex(text) === vault.redactedSha256;
+      if (!textUnchanged) {
+        log.warn("The redacted file was edited since redaction; only hash tags ([[KIND:…]]) can be restored.");
+      }
+
+      const res = restoreText(text, vault, { kinds, textUnchanged });
+      await writePrivateFile(outPath, res.text);
+      log.info(`✓ Restored ${res.restored} span(s) from ${vault.source}`);
+      if (res.skipped.length) {
+        const byKind: Record<string, number> = {};
+        for (const e of res.skipped) byKind[e.kind] = (byKind[e.kind] || 0) + 1;
+        log.warn(`Not restored (${res.skipped.length}):`, byKind);
+      }
+      log.info(`✓ Wrote: ${outPath}`);
+    } catch (e: unknown) {
+      log.error("Failed to unredact file:", e instanceof Error ? e.message : String(e));
+    }
+  });
+
+export default unredactCommand;
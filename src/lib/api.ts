@@ -57,7 +57,11 @@ export class Profile {
   Category?: string;
   ShortUrl?: string;
   Visibility?: string;
+  PausedUntil?: string; // set while paused; the server re-publishes the profile after this date
+  ApprovalStatus?: string; // pending | approved | rejected
+  ModerationStatus?: string;
   Created?: string;
+  Updated?: string;
   Summary?: string;
   Yaml?: string;
 
@@ -117,6 +121,31 @@ export async function deleteProfile(
   });
 }
 
+export type ProfileVisibility = "public" | "private";
+
+export async function setProfileVisibility(
+  id: string,
+  input: { Visibility: ProfileVisibility; PausedUntil?: string },
+): Promise<Profile> {
+  return await apiClient.sendRequest<Profile>(
+    `/user/profiles/${encodeURIComponent(id)}/visibility`,
+    { params: input, method: "PUT", ctor: Profile },
+  );
+}
+
+export async function publishProfile(id: string): Promise<Profile> {
+  return await setProfileVisibility(id, { Visibility: "public" });
+}
+
+export async function hideProfile(id: string): Promise<Profile> {
+  return await setProfileVisibility(id, { Visibility: "private" });
+}
+
+// Hide a profile until the given date (YYYY-MM-DD); the server re-publishes it afterwards.
+export async function pauseProfile(id: string, until: string): Promise<Profile> {
+  return await setProfileVisibility(id, { Visibility: "private", PausedUntil: until });
+}
+
 export function generateProfileFromResume(
   resumePath: string,
   opts?: { title?: string },
@@ -135,6 +164,112 @@ export function generateProfileFromResume(
   };
 }
 
+/* Proposal class and proposal APIs
+   - Proposal: a recruiter's job proposal addressed to one of the user's profiles
+   - Same wrapper pattern as Profile: typed fields + raw payload preserved for toJSON
+*/
+
+export type ProposalStatus = "new" | "viewed" | "accepted" | "declined" | "archived";
+
+export class Proposal {
+  ProposalID?: string;
+  ProfileID?: string;
+  Status?: ProposalStatus | string;
+  Company?: string;
+  Recruiter?: string;
+  JobTitle?: string;
+  Location?: string;
+  Remote?: string;
+  Salary?: string;
+  Description?: string;
+  JobUrl?: string;
+  Created?: string;
+  Updated?: string;
+  DeclineReason?: string;
+
+  private _raw: unknown;
+
+  [key: string]: unknown;
+
+  constructor(data: unknown = {}) {
+    this._raw = data;
+    Object.assign(this, data);
+  }
+
+  toJSON() {
+    return this._raw;
+  }
+}
+
+export type ProposalFilter = {
+  ProfileID?: string;
+  Status?: string;
+  Since?: string; // YYYY-MM-DD
+  Until?: string; // YYYY-MM-DD
+};
+
+export async function listProposals(filter: ProposalFilter = {}): Promise<Proposal[]> {
+  const arr = await apiClient.sendRequest<Proposal[]>("/user/proposals", {
+    method: "GET",
+    params: filter,
+    ctor: Proposal,
+  });
+  return Array.isArray(arr) ? arr : [];
+}
+
+export async function getProposal(id: string): Promise<Proposal | null> {
+  return await apiClient.sendRequest<Proposal | null>(
+    `/user/proposals/${encodeURIComponent(id)}`,
+    { method: "GET", ctor: Proposal },
+  );
+}
+
+async function updateProposalStatus(
+  id: string,
+  action: "accept" | "decline" | "archive",
+  params?: Record<string, unknown>,
+): Promise<Proposal> {
+  return await apiClient.sendRequest<Proposal>(
+    `/user/proposals/${encodeURIComponent(id)}/${action}`,
+    { method: "POST", params: params ?? {}, ctor: Proposal },
+  );
+}
+
+export async function acceptProposal(id: string): Promise<Proposal> {
+  return await updateProposalStatus(id, "accept");
+}
+
+export async function declineProposal(id: string, reason?: string): Promise<Proposal> {
+  return await updateProposalStatus(id, "decline", reason ? { Reason: reason } : undefined);
+}
+
+export async function archiveProposal(id: string): Promise<Proposal> {
+  return await updateProposalStatus(id, "archive");
+}
+
+// Contact details kept hidden from recruiters until the user reveals them for a proposal
+export type IdentityField = "FullName" | "Email" | "Phone" | "LinkedIn" | "Github" | "Website";
+
+export type Identity = Partial<Record<IdentityField, string>>;
+
+export type RevealResult = {
+  ProposalID?: string;
+  Fields?: IdentityField[];
+  Revealed?: string;
+  [key: string]: unknown;
+};
+
+export async function getIdentity(): Promise<Identity> {
+  return (await apiClient.sendRequest<Identity | null>("/user/identity", { method: "GET" })) ?? {};
+}
+
+export async function revealIdentity(id: string, fields: IdentityField[]): Promise<RevealResult> {
+  return await apiClient.sendRequest<RevealResult>(
+    `/user/proposals/${encodeURIComponent(id)}/reveal`,
+    { method: "POST", params: { Fields: fields } },
+  );
+}
+
 // Location types
 export type LocationInfo = {
   CountryCode?: string;
@@ -194,6 +329,32 @@ export async function searchCities(
   });
 }
 
+// Employer blocklist: companies (by name or domain) that never see the user's profiles
+export type BlockedEmployer = {
+  Entry: string; // company name or domain, as entered
+  Kind?: "company" | "domain";
+  Created?: string;
+};
+
+export async function listBlockedEmployers(): Promise<BlockedEmployer[]> {
+  const arr = await apiClient.sendRequest<BlockedEmployer[]>("/user/blocklist", { method: "GET" });
+  return Array.isArray(arr) ? arr : [];
+}
+
+export async function addBlockedEmployers(entries: string[]): Promise<BlockedEmployer[]> {
+  const arr = await apiClient.sendRequest<BlockedEmployer[]>("/user/blocklist", {
+    method: "POST",
+    params: { Entries: entries },
+  });
+  return Array.isArray(arr) ? arr : [];
+}
+
+export async function removeBlockedEmployer(entry: string): Promise<void> {
+  await apiClient.sendRequest<void>(`/user/blocklist/${encodeURIComponent(entry)}`, {
+    method: "DELETE",
+  });
+}
+
 type AffiliateLinkResponse = { link?: string | null };
 export async function getAffiliateLink(): Promise<string | null> {
   const data = await apiClient.sendRequest<AffiliateLinkResponse>("/user/affiliate/link", {
@@ -213,11 +374,25 @@ export default {
   createProfile,
   updateProfile,
   deleteProfile,
+  setProfileVisibility,
+  publishProfile,
+  hideProfile,
+  pauseProfile,
   generateProfileFromResume,
+  listProposals,
+  getProposal,
+  acceptProposal,
+  declineProposal,
+  archiveProposal,
+  getIdentity,
+  revealIdentity,
   getUserLocation,
   setUserLocation,
   searchCountries,
   searchRegions,
   searchCities,
+  listBlockedEmployers,
+  addBlockedEmployers,
+  removeBlockedEmployer,
   getAffiliateLink,
 };
@@ -1,8 +1,11 @@
 import { saveTokenBundle } from "./auth";
-import { cfg } from "./config";
+import { cfg, configDir } from "./config";
+import { activeContext } from "./contexts";
 import { deleteTokens, loadTokens } from "./keychain";
+import { withFileLock } from "./lock";
 import { log } from "./log";
 import { Buffer } from "node:buffer";
+import { join } from "node:path";
 import process from "node:process";
 import type { StoredTokens, TokenResponse } from "./types";
 
@@ -48,14 +51,21 @@ export class ApiClientError extends Error {
 }
 
 export class ApiClient {
-  apiBase: string;
   clientId: string;
+  private base: string | (() => string);
+  // Refresh in flight in this process; concurrent requests wait for it instead of starting another
+  private refreshing: Promise<void> | null = null;
 
-  constructor(apiBase: string, clientId: string) {
-    this.apiBase = apiBase;
+  // `apiBase` may be a function so the base URL is resolved per request (e.g. from the active context).
+  constructor(apiBase: string | (() => string), clientId: string) {
+    this.base = apiBase;
     this.clientId = clientId;
   }
 
+  get apiBase(): string {
+    return typeof this.base === "function" ? this.base() : this.base;
+  }
+
   // normalize API path to start with /api/v1/
   normalizePath(path: string) {
     path = path.startsWith("/v1/") || path.startsWith("/api/v1/")
@@ -175,7 +185,7 @@ export class ApiClient {
                 ? "has expired"
                 : (tokenExpiresSoon ? "is expiring soon" : "authorization failed");
               log.warn(`Access token ${issue}, refreshing...`);
-              await this.refreshAccessToken();
+              await this.refreshAccessToken(tokens);
             } catch (refreshErr) {
               if (lastStatusCode === 401 || tokenAlreadyExpired) {
                 throw new ApiClientError(String(refreshErr), 401);
@@ -310,21 +320,42 @@ export class ApiClient {
     }
   }
 
-  async refreshAccessToken() {
-    const tokens = await loadTokens<StoredTokens>();
-    if (!tokens) {
-      throw new ApiClientError("No auth token found. Please authenticate with 'auth login'.", 401);
-    }
+  // Refresh the access token once, even with concurrent callers: in-process they share one promise,
+  // across processes a lock file in the config dir serializes them. `seen` is the bundle the caller
+  // found too old; if the keychain holds a newer, still valid one by the time we own the lock,
+  // another process has just refreshed and its tokens are reused (a rotated refresh token works once).
+  async refreshAccessToken(seen?: StoredTokens) {
+    // Assigned synchronously, before any await, so a second caller always finds it
+    this.refreshing ??= (async () => await this.refreshLocked(seen ?? await loadTokens<StoredTokens>()))()
+      .finally(() => {
+        this.refreshing = null;
+      });
+    return await this.refreshing;
+  }
 
-    const json = await this.sendRequestInternal<TokenResponse>(
-      "/v1/auth/token",
-      "POST",
-      {
-        grant_type: "refresh_token",
-        refresh_token: tokens.refreshToken,
-      },
-    );
-    await saveTokenBundle(json);
+  private async refreshLocked(seen: StoredTokens | null) {
+    const lockFile = join(configDir(), `${cfg.keychainService}_${activeContext().account}.refresh.lock`);
+    await withFileLock(lockFile, async () => {
+      const tokens = await loadTokens<StoredTokens>();
+      if (!tokens) {
+        throw new ApiClientError("No auth token found. Please authenticate with 'auth login'.", 401);
+      }
+      const now = Math.floor(Date.now() / 1000);
+      if (seen && tokens.accessToken !== seen.accessToken && tokens.expiresAt > now + 30) {
+        log.debug("Access token was refreshed by another process, reusing it.");
+        return;
+      }
+
+      const json = await this.sendRequestInternal<TokenResponse>(
+        "/v1/auth/token",
+        "POST",
+        {
+          grant_type: "refresh_token",
+          refresh_token: tokens.refreshToken,
+        },
+      );
+      await saveTokenBundle(json, tokens);
+    });
   }
 
   async logout() {
@@ -339,4 +370,4 @@ export class ApiClient {
   }
 }
 
-export default new ApiClient(cfg.apiBase, cfg.apiClientId);
+export default new ApiClient(() => activeContext().apiBase, cfg.apiClientId);
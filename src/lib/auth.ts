@@ -1,14 +1,15 @@
 import { loadTokens, saveTokens } from "./keychain";
 import type { StoredTokens, TokenResponse } from "./types";
 
-export async function saveTokenBundle(t: TokenResponse) {
+// `previous` carries the subject and scope over when a refresh response omits them
+export async function saveTokenBundle(t: TokenResponse, previous?: StoredTokens | null) {
   const expiresAt = Math.floor(Date.now() / 1000) + t.expires_in;
   const bundle: StoredTokens = {
     accessToken: t.access_token,
     refreshToken: t.refresh_token,
     expiresAt,
-    scope: t.scope,
-    subject: t.subject,
+    scope: t.scope ?? previous?.scope,
+    subject: t.subject ?? previous?.subject,
   };
   await saveTokens(bundle);
 }
@@ -0,0 +1,71 @@
+// Local helpers for the employer blocklist: normalizing entries and finding mentions of blocked
+// employers in profile text (a mention can de-anonymize a profile even when the server hides it).
+
+import type { DiffPath } from "./diff";
+import { stringLeaves } from "./diff";
+
+const DOMAIN_RE = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i;
+const LEGAL_SUFFIX_RE =
+  /[\s,]+(?:inc|incorporated|llc|ltd|limited|corp|corporation|co|company|gmbh|ag|plc|sa|sas|bv|nv|oy|ab|srl|pty)\.?$/i;
+
+export function isDomain(entry: string) {
+  return DOMAIN_RE.test(entry);
+}
+
+// Trim, drop URL scheme/path and "www." from domains; collapse whitespace in company names.
+export function normalizeEntry(raw: string): string {
+  let s = raw.trim().replace(/\s+/g, " ");
+  const url = /^(?:https?:\/\/)?(?:www\.)?([^/\s]+)(?:\/.*)?$/i.exec(s);
+  if (url && isDomain(url[1])) s = url[1].toLowerCase();
+  return s;
+}
+
+// Parse a bulk import file: one entry per line; blank lines and # comments are ignored.
+export function parseEntries(text: string): string[] {
+  const out = new Set<string>();
+  for (const line of text.split(/\r?\n/)) {
+    const s = normalizeEntry(line.replace(/#.*$/, ""));
+    if (s) out.add(s);
+  }
+  return [...out];
+}
+
+// Terms to look for in text: the entry itself, the company name without a legal suffix
+// ("Acme Corp Inc." → "Acme Corp") and the bare name of a domain ("acme.com" → "acme").
+export function searchTerms(entry: string): string[] {
+  const terms = new Set([entry]);
+  if (isDomain(entry)) {
+    const label = entry.split(".").slice(-2, -1)[0];
+    if (label && label.length >= 3) terms.add(label);
+  } else {
+    const bare = entry.replace(LEGAL_SUFFIX_RE, "").trim();
+    if (bare.length >= 2) terms.add(bare);
+  }
+  return [...terms];
+}
+
+export function termRegex(term: string, flags = "iu") {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, flags);
+}
+
+export type BlockedMention = { entry: string; path: DiffPath; match: string };
+
+// Find blocked employers mentioned in any string field of a parsed profile.
+export function findBlockedMentions(payload: unknown, entries: string[]): BlockedMention[] {
+  const leaves = stringLeaves(payload);
+  const out: BlockedMention[] = [];
+  for (const entry of entries) {
+    const regexes = searchTerms(entry).map((t) => termRegex(t));
+    for (const leaf of leaves) {
+      for (const re of regexes) {
+        const m = re.exec(leaf.value);
+        if (m) {
+          out.push({ entry, path: leaf.path, match: m[0] });
+          break;
+        }
+      }
+    }
+  }
+  return out;
+}
@@ -1,4 +1,5 @@
 import dotenv from "dotenv";
+import { join } from "node:path";
 import process from "node:process";
 dotenv.config();
 
@@ -16,7 +17,20 @@ export const cfg = {
   apiBasicAuthPassword: process.env[`${ENV_PREFIX}_API_PASSWORD`] ?? "",
   apiMaxAttempts: 5,
   keychainService: APP_NAME,
+  // file (default), prompt, secret-service or pass; see keychain.ts
+  keychainBackend: process.env[`${ENV_PREFIX}_KEYCHAIN_BACKEND`] ?? "file",
   keychainAccount: `tokens`,
   // Empty => keychain.ts derives a default machine-specific passphrase
   keychainPassphrase: process.env[`${ENV_PREFIX}_KEYCHAIN_PASSPHRASE`],
+  // Local LLM flagger for `redact --flagger ollama`
+  ollamaUrl: process.env[`${ENV_PREFIX}_OLLAMA_URL`] ?? "http://127.0.0.1:11434",
+  ollamaModel: process.env[`${ENV_PREFIX}_OLLAMA_MODEL`] ?? "llama3.1",
 };
+
+// Per-user config directory (e.g. ~/.config/mjctl or %APPDATA%\mjctl) for the keychain file and local state.
+export function configDir(): string {
+  const base = process.platform === "win32"
+    ? process.env["APPDATA"] ?? process.env["USERPROFILE"] ?? "."
+    : process.env["XDG_CONFIG_HOME"] ?? ((process.env["HOME"] ?? ".") + "/.config");
+  return join(base, APP_NAME);
+}
@@ -0,0 +1,129 @@
+// Named contexts: each pairs an API base URL with its own keychain entry, so one install can hold
+// e.g. a personal account and a test account on staging. Stored in <configDir>/contexts.json:
+//   { "current": "staging", "contexts": { "staging": { "apiBase": "https://staging.example.com" } } }
+// The "default" context always exists; it uses MJCTL_API_URL and the original keychain account,
+// so tokens saved before contexts existed keep working.
+
+import { join } from "node:path";
+import { promises as fs, readFileSync } from "node:fs";
+import process from "node:process";
+import { cfg, configDir } from "./config";
+import { isPlainObject } from "./diff";
+import { writePrivateFile } from "./sync";
+
+export const DEFAULT_CONTEXT = "default";
+
+export type Context = { name: string; apiBase: string; account: string };
+export type ContextsFile = { current?: string; contexts: Record<string, { apiBase: string }> };
+
+const NAME_RE = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,39}$/;
+
+// Context chosen with the global --context flag for this run
+let selected: string | undefined;
+let cached: ContextsFile | undefined;
+
+export function isValidContextName(name: string): boolean {
+  return NAME_RE.test(name);
+}
+
+function contextsPath(): string {
+  return join(configDir(), "contexts.json");
+}
+
+// Validate contexts.json; entries with a bad name or no apiBase are dropped.
+export function parseContexts(json: string): ContextsFile {
+  const raw: unknown = JSON.parse(json);
+  const out: ContextsFile = { contexts: {} };
+  if (!isPlainObject(raw)) return out;
+  if (typeof raw.current === "string" && isValidContextName(raw.current)) out.current = raw.current;
+  if (isPlainObject(raw.contexts)) {
+    for (const [name, v] of Object.entries(raw.contexts)) {
+      if (isValidContextName(name) && isPlainObject(v) && typeof v.apiBase === "string" && v.apiBase) {
+        out.contexts[name] = { apiBase: v.apiBase };
+      }
+    }
+  }
+  return out;
+}
+
+export function readContexts(): ContextsFile {
+  if (cached) return cached;
+  try {
+    cached = parseContexts(readFileSync(contextsPath(), { encoding: "utf8" }));
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException)?.code !== "ENOENT") {
+      throw new Error(`${contextsPath()}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    cached = { contexts: {} };
+  }
+  return cached;
+}
+
+// Re-reads the file first, so run-only changes from defineContext are not written by accident.
+async function writeContexts(update: (file: ContextsFile) => ContextsFile): Promise<void> {
+  cached = undefined;
+  const file = update(readContexts());
+  await fs.mkdir(configDir(), { recursive: true });
+  await writePrivateFile(contextsPath(), JSON.stringify(file, null, 2) + "\n");
+  cached = file;
+}
+
+// Keychain account for a context; the default context keeps the pre-context account name.
+export function tokenAccount(name: string): string {
+  return name === DEFAULT_CONTEXT ? cfg.keychainAccount : `${cfg.keychainAccount}@${name}`;
+}
+
+// Look up a context by name. Unknown names resolve only when `create` is set (login to a new context).
+export function resolveContext(file: ContextsFile, name: string, create = false): Context | null {
+  const entry = file.contexts[name];
+  if (!entry && name !== DEFAULT_CONTEXT && !create) return null;
+  return { name, apiBase: entry?.apiBase ?? cfg.apiBase, account: tokenAccount(name) };
+}
+
+export function listContexts(): Context[] {
+  const file = readContexts();
+  const names = [DEFAULT_CONTEXT, ...Object.keys(file.contexts).filter((n) => n !== DEFAULT_CONTEXT).sort()];
+  return names.map((n) => resolveContext(file, n)!);
+}
+
+function checkContextName(name: string): string {
+  if (!isValidContextName(name)) {
+    throw new Error(`Invalid context name "${name}": use letters, digits, ".", "_" or "-".`);
+  }
+  return name;
+}
+
+// --context flag, then MJCTL_CONTEXT, then the context chosen with `auth use`. The name ends up
+// in keychain file names, so the environment value is checked like the flag.
+export function activeContextName(): string {
+  const env = process.env[`${cfg.appName.toUpperCase()}_CONTEXT`];
+  return selected || (env ? checkContextName(env) : readContexts().current) || DEFAULT_CONTEXT;
+}
+
+// The context for this run. A name that is not saved yet still resolves (with the default API base)
+// so `auth login --context <new>` can create it; other commands reject it up front.
+export function activeContext(): Context {
+  return resolveContext(readContexts(), activeContextName(), true)!;
+}
+
+export function selectContext(name: string): void {
+  selected = checkContextName(name);
+}
+
+export function contextExists(name: string): boolean {
+  return resolveContext(readContexts(), name) !== null;
+}
+
+// Point a context at `apiBase` for this run only (login to a new context); saveContext persists it.
+export function defineContext(name: string, apiBase: string): void {
+  const file = readContexts();
+  cached = { ...file, contexts: { ...file.contexts, [name]: { apiBase } } };
+}
+
+export async function saveContext(name: string, apiBase: string): Promise<void> {
+  await writeContexts((file) => ({ ...file, contexts: { ...file.contexts, [name]: { apiBase } } }));
+}
+
+export async function useContext(name: string): Promise<void> {
+  await writeContexts((file) => ({ ...file, current: name }));
+}
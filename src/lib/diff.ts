@@ -0,0 +1,244 @@
+// Structural diff for parsed YAML/JSON values (profile drafts vs server copies).
+// Produces field-level changes with paths; lists are matched by item content so that
+// reordered items are reported as moves instead of remove+add pairs.
+
+import { paint } from "./log";
+
+export type DiffPath = Array<string | number>;
+
+export type DiffEntry =
+  | { op: "add"; path: DiffPath; value: unknown }
+  | { op: "remove"; path: DiffPath; value: unknown }
+  | { op: "change"; path: DiffPath; from: unknown; to: unknown }
+  | { op: "move"; path: DiffPath; from: number; to: number; value: unknown };
+
+/* ------------------------------- Utilities -------------------------------- */
+
+export function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return v != null && typeof v === "object" && !Array.isArray(v);
+}
+
+// Key-order independent serialization used for equality and list item matching.
+function stableKey(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableKey).join(",")}]`;
+  if (isPlainObject(v)) {
+    const keys = Object.keys(v).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${stableKey(v[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(v) ?? "undefined";
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  return stableKey(a) === stableKey(b);
+}
+
+// Longest common subsequence of two key lists; returns matched index pairs in order.
+function lcsPairs(a: string[], b: string[]): Array<[number, number]> {
+  const dp: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      dp[i][j] = a[i] === b[j] ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+    }
+  }
+  const pairs: Array<[number, number]> = [];
+  let i = 0, j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (dp[i + 1][j] >= dp[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+// All string leaves of a parsed document with their paths (keys are not included).
+export function stringLeaves(v: unknown, path: DiffPath = []): Array<{ path: DiffPath; value: string }> {
+  if (typeof v === "string") return [{ path, value: v }];
+  if (Array.isArray(v)) return v.flatMap((item, i) => stringLeaves(item, [...path, i]));
+  if (isPlainObject(v)) return Object.entries(v).flatMap(([k, item]) => stringLeaves(item, [...path, k]));
+  return [];
+}
+
+/* --------------------------------- Diff ----------------------------------- */
+
+function diffArrays(a: unknown[], b: unknown[], path: DiffPath): DiffEntry[] {
+  const ka = a.map(stableKey);
+  const kb = b.map(stableKey);
+  const kept = lcsPairs(ka, kb);
+  const oldLeft = new Set(a.keys());
+  const newLeft = new Set(b.keys());
+  for (const [i, j] of kept) {
+    oldLeft.delete(i);
+    newLeft.delete(j);
+  }
+
+  const out: DiffEntry[] = [];
+
+  // Identical items outside the common subsequence were moved
+  for (const i of [...oldLeft]) {
+    const j = [...newLeft].find((n) => kb[n] === ka[i]);
+    if (j === undefined) continue;
+    out.push({ op: "move", path: [...path, j], from: i, to: j, value: b[j] });
+    oldLeft.delete(i);
+    newLeft.delete(j);
+  }
+
+  // Remaining items are paired in order and diffed recursively (edited entries)
+  const olds = [...oldLeft].sort((x, y) => x - y);
+  const news = [...newLeft].sort((x, y) => x - y);
+  const paired = Math.min(olds.length, news.length);
+  for (let k = 0; k < paired; k++) {
+    out.push(...diffValues(a[olds[k]], b[news[k]], [...path, news[k]]));
+  }
+  for (const i of olds.slice(paired)) out.push({ op: "remove", path: [...path, i], value: a[i] });
+  for (const j of news.slice(paired)) out.push({ op: "add", path: [...path, j], value: b[j] });
+
+  return out;
+}
+
+// Compute changes that turn `a` into `b`.
+export function diffValues(a: unknown, b: unknown, path: DiffPath = []): DiffEntry[] {
+  if (deepEqual(a, b)) return [];
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const out: DiffEntry[] = [];
+    const keys = [...Object.keys(a), ...Object.keys(b).filter((k) => !(k in a))];
+    for (const k of keys) {
+      if (!(k in b)) out.push({ op: "remove", path: [...path, k], value: a[k] });
+      else if (!(k in a)) out.push({ op: "add", path: [...path, k], value: b[k] });
+      else out.push(...diffValues(a[k], b[k], [...path, k]));
+    }
+    return out;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return diffArrays(a, b, path);
+  }
+
+  return [{ op: "change", path, from: a, to: b }];
+}
+
+/* ------------------------------- Formatting ------------------------------- */
+
+export function formatPath(path: DiffPath): string {
+  if (!path.length) return "(root)";
+  let s = "";
+  for (const p of path) {
+    if (typeof p === "number") s += `[${p}]`;
+    else if (/^[A-Za-z_][A-Za-z0-9_-]*$/.test(p)) s += s ? `.${p}` : p;
+    else s += `[${JSON.stringify(p)}]`;
+  }
+  return s;
+}
+
+export function previewValue(v: unknown, max = 80): string {
+  const s = typeof v === "string" ? JSON.stringify(v) : JSON.stringify(v) ?? String(v);
+  return s.length > max ? s.slice(0, max - 1) + "…" : s;
+}
+
+export function formatDiff(entries: DiffEntry[]): string[] {
+  return entries.map((e) => {
+    const p = formatPath(e.path);
+    switch (e.op) {
+      case "add":
+        return paint.green(`+ ${p}: ${previewValue(e.value)}`);
+      case "remove":
+        return paint.red(`- ${p}: ${previewValue(e.value)}`);
+      case "change":
+        return paint.yellow(`~ ${p}: ${previewValue(e.from)} → ${previewValue(e.to)}`);
+      case "move":
+        return paint.cyan(`↕ ${p}: moved from [${e.from}] to [${e.to}] ${previewValue(e.value, 60)}`);
+    }
+  });
+}
+
+export function summarizeDiff(entries: DiffEntry[]): Record<DiffEntry["op"], number> {
+  const counts = { add: 0, remove: 0, change: 0, move: 0 };
+  for (const e of entries) counts[e.op]++;
+  return counts;
+}
+
+/* ----------------------------- Three-way merge ---------------------------- */
+
+export type MergeConflict = {
+  path: DiffPath;
+  // undefined means the key is absent on that side
+  base: unknown;
+  local: unknown;
+  server: unknown;
+};
+
+const ABSENT = Symbol("absent");
+type Slot = unknown | typeof ABSENT;
+
+function slot(obj: unknown, key: string): Slot {
+  return isPlainObject(obj) && key in obj ? obj[key] : ABSENT;
+}
+
+function same(a: Slot, b: Slot) {
+  if (a === ABSENT || b === ABSENT) return a === b;
+  return deepEqual(a, b);
+}
+
+const isScalar = (v: unknown) => v == null || typeof v !== "object";
+
+function merge3(base: Slot, local: Slot, server: Slot, path: DiffPath, conflicts: MergeConflict[]): Slot {
+  if (same(local, server)) return local;
+  if (same(base, local)) return server;
+  if (same(base, server)) return local;
+
+  // Both sides edited the same map: merge key by key
+  if (isPlainObject(local) && isPlainObject(server)) {
+    const out: Record<string, unknown> = {};
+    const keys = [...Object.keys(local), ...Object.keys(server).filter((k) => !(k in local))];
+    for (const k of keys) {
+      const v = merge3(slot(base, k), slot(local, k), slot(server, k), [...path, k], conflicts);
+      if (v !== ABSENT) out[k] = v;
+    }
+    return out;
+  }
+
+  // Scalar lists (skills, tags) merge like sets: keep local order, apply server additions/removals
+  if (Array.isArray(local) && Array.isArray(server) && [...local, ...server].every(isScalar)) {
+    const b = Array.isArray(base) ? base.map(stableKey) : [];
+    const l = local.map(stableKey);
+    const s = server.map(stableKey);
+    const kept = local.filter((_, i) => !(b.includes(l[i]) && !s.includes(l[i])));
+    const added = server.filter((_, i) => !b.includes(s[i]) && !l.includes(s[i]));
+    return [...kept, ...added];
+  }
+
+  const show = (v: Slot) => (v === ABSENT ? undefined : v);
+  conflicts.push({ path, base: show(base), local: show(local), server: show(server) });
+  return local;
+}
+
+// Merge local and server edits made on top of a common base. Conflicting paths keep the
+// local value in `merged` and are reported so the caller can resolve them.
+export function mergeValues(
+  base: unknown,
+  local: unknown,
+  server: unknown,
+): { merged: unknown; conflicts: MergeConflict[] } {
+  const conflicts: MergeConflict[] = [];
+  const merged = merge3(base, local, server, [], conflicts);
+  return { merged: merged === ABSENT ? undefined : merged, conflicts };
+}
+
+// Set (or delete, when value is undefined) a nested value in place.
+export function setPath(root: unknown, path: DiffPath, value: unknown) {
+  if (!path.length) return;
+  let cur = root as Record<string | number, unknown>;
+  for (const p of path.slice(0, -1)) {
+    cur = cur[p] as Record<string | number, unknown>;
+    if (cur == null || typeof cur !== "object") return;
+  }
+  const last = path[path.length - 1];
+  if (value === undefined && !Array.isArray(cur)) delete cur[last];
+  else cur[last] = value;
+}
@@ -0,0 +1,167 @@
+// Redaction quality evaluation (`redact eval <dir>`).
+// A corpus directory holds resumes plus gold.jsonl with one annotation per line:
+//   {"file": "jane.txt", "kind": "email", "text": "jane@example.com"}
+//   {"file": "jane.txt", "kind": "loc", "text": "Berlin", "count": 2}   // occurs twice
+//   {"file": "clean.txt"}                                                // evaluated, no PII
+// Each file is redacted with the default detectors; a detected span counts as a true positive
+// when an unmatched gold annotation has the same kind and text (whitespace-insensitive).
+
+import * as path from "node:path";
+import os from "node:os";
+import { promises as fs } from "node:fs";
+import { redactResumeFile } from "./pii";
+import type { Kind, LLMFlagger, Span } from "./pii";
+import { KINDS } from "./rules";
+
+export type GoldSpan = { kind: Kind; text: string };
+
+export type Metrics = {
+  gold: number;
+  tp: number;
+  fp: number;
+  fn: number;
+  precision: number;
+  recall: number;
+  f1: number;
+};
+
+export type FileResult = {
+  file: string;
+  tp: number;
+  missed: GoldSpan[];
+  spurious: Array<GoldSpan & { source?: string }>;
+  error?: string;
+};
+
+export type EvalReport = {
+  files: FileResult[];
+  overall: Metrics;
+  byKind: Record<string, Metrics>;
+  // Per detector layer: precision of its spans, recall as the share of all gold spans it found
+  bySource: Record<string, Metrics>;
+};
+
+const norm = (s: string) => s.replace(/\s+/g, " ").trim();
+
+// Parse gold.jsonl into annotations per file (files listed without spans have no PII).
+export function parseGold(jsonl: string): Map<string, GoldSpan[]> {
+  const out = new Map<string, GoldSpan[]>();
+  jsonl.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim() || line.trim().startsWith("//")) return;
+    let row: { file?: unknown; kind?: unknown; text?: unknown; count?: unknown };
+    try {
+      row = JSON.parse(line);
+    } catch {
+      throw new Error(`gold.jsonl:${i + 1}: invalid JSON`);
+    }
+    if (typeof row.file !== "string" || !row.file) throw new Error(`gold.jsonl:${i + 1}: "file" is required`);
+    const spans = out.get(row.file) ?? [];
+    out.set(row.file, spans);
+    if (row.kind == null && row.text == null) return;
+    if (!KINDS.includes(row.kind as Kind)) throw new Error(`gold.jsonl:${i + 1}: "kind" must be one of ${KINDS.join(", ")}`);
+    if (typeof row.text !== "string" || !norm(row.text)) throw new Error(`gold.jsonl:${i + 1}: "text" is required`);
+    const count = typeof row.count === "number" && row.count > 0 ? Math.floor(row.count) : 1;
+    for (let n = 0; n < count; n++) spans.push({ kind: row.kind as Kind, text: norm(row.text) });
+  });
+  return out;
+}
+
+// Match detected spans against gold annotations (multiset on kind + text).
+export function scoreSpans(predicted: Span[], gold: GoldSpan[]) {
+  const open = new Map<string, number>();
+  const key = (kind: string, text: string) => `${kind}\u0000${norm(text)}`;
+  for (const g of gold) open.set(key(g.kind, g.text), (open.get(key(g.kind, g.text)) ?? 0) + 1);
+
+  const matched: Span[] = [];
+  const spurious: Span[] = [];
+  for (const s of predicted) {
+    const k = key(s.kind, s.value);
+    const left = open.get(k) ?? 0;
+    if (left > 0) {
+      open.set(k, left - 1);
+      matched.push(s);
+    } else {
+      spurious.push(s);
+    }
+  }
+  const missed: GoldSpan[] = [];
+  for (const [k, n] of open) {
+    const [kind, text] = k.split("\u0000");
+    for (let i = 0; i < n; i++) missed.push({ kind: kind as Kind, text });
+  }
+  return { matched, spurious, missed };
+}
+
+function metrics(gold: number, tp: number, fp: number, fn: number): Metrics {
+  const precision = tp + fp ? tp / (tp + fp) : 1;
+  const recall = gold ? tp / gold : 1;
+  const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+  return { gold, tp, fp, fn, precision, recall, f1 };
+}
+
+// Redact every file listed in <dir>/gold.jsonl (outputs go to a temp dir) and score the results.
+export async function evaluateCorpus(dir: string, opts: { flagger?: LLMFlagger | null } = {}): Promise<EvalReport> {
+  const gold = parseGold(await fs.readFile(path.join(dir, "gold.jsonl"), { encoding: "utf8" }));
+  if (gold.size === 0) throw new Error(`No annotations in ${path.join(dir, "gold.jsonl")}`);
+
+  const kinds = new Map<string, { gold: number; tp: number; fp: number }>();
+  const sources = new Map<string, { tp: number; fp: number }>();
+  const bump = <T extends object>(m: Map<string, T>, k: string, init: T, f: (t: T) => void) => {
+    const t = m.get(k) ?? init;
+    f(t);
+    m.set(k, t);
+  };
+
+  const files: FileResult[] = [];
+  const tmp = await fs.mkdtemp(path.join(os.tmpdir(), "mjctl-eval-"));
+  try {
+    for (const [file, spans] of gold) {
+      for (const g of spans) bump(kinds, g.kind, { gold: 0, tp: 0, fp: 0 }, (t) => t.gold++);
+      let predicted: Span[];
+      try {
+        const res = await redactResumeFile(path.join(dir, file), {
+          outBase: path.join(tmp, String(files.length)),
+          flagger: opts.flagger,
+          previewLimit: 0,
+        });
+        predicted = res.hits;
+      } catch (e: unknown) {
+        files.push({ file, tp: 0, missed: spans, spurious: [], error: e instanceof Error ? e.message : String(e) });
+        continue;
+      }
+      const { matched, spurious, missed } = scoreSpans(predicted, spans);
+      for (const s of matched) {
+        bump(kinds, s.kind, { gold: 0, tp: 0, fp: 0 }, (t) => t.tp++);
+        bump(sources, s.source ?? "unknown", { tp: 0, fp: 0 }, (t) => t.tp++);
+      }
+      for (const s of spurious) {
+        bump(kinds, s.kind, { gold: 0, tp: 0, fp: 0 }, (t) => t.fp++);
+        bump(sources, s.source ?? "unknown", { tp: 0, fp: 0 }, (t) => t.fp++);
+      }
+      files.push({
+        file,
+        tp: matched.length,
+        missed,
+        spurious: spurious.map((s) => ({ kind: s.kind, text: norm(s.value), source: s.source })),
+      });
+    }
+  } finally {
+    await fs.rm(tmp, { recursive: true, force: true });
+  }
+
+  const byKind: Record<string, Metrics> = {};
+  let goldTotal = 0;
+  let tpTotal = 0;
+  let fpTotal = 0;
+  for (const [k, t] of [...kinds].sort(([a], [b]) => a.localeCompare(b))) {
+    byKind[k] = metrics(t.gold, t.tp, t.fp, t.gold - t.tp);
+    goldTotal += t.gold;
+    tpTotal += t.tp;
+    fpTotal += t.fp;
+  }
+  const bySource: Record<string, Metrics> = {};
+  for (const [k, t] of [...sources].sort(([a], [b]) => a.localeCompare(b))) {
+    bySource[k] = metrics(goldTotal, t.tp, t.fp, goldTotal - t.tp);
+  }
+  return { files, overall: metrics(goldTotal, tpTotal, fpTotal, goldTotal - tpTotal), byKind, bySource };
+}
@@ -0,0 +1,843 @@
+// Format-aware text extraction for resumes (PDF, DOCX, Markdown, HTML, RTF, plain text).
+// Every extractor returns the plain text plus first-page "layout lines" with font size, weight
+// and alignment hints so the heading-based name detector works the same for all formats.
+// Dependencies: pdfjs-dist (pure JS) for PDF; node:zlib for DOCX. No native addons.
+
+import * as path from "node:path";
+import { promises as fs } from "node:fs";
+import { Buffer } from "node:buffer";
+import { inflateRawSync } from "node:zlib";
+
+/* --------------------------------- Types ---------------------------------- */
+
+export type DocumentFormat = "pdf" | "docx" | "markdown" | "html" | "rtf" | "text";
+
+export type LayoutLine = {
+  text: string;
+  y: number;
+  x: number;
+  width: number;
+  maxFont: number;
+  avgFont: number;
+  centered: boolean;
+  bold: boolean;
+  tokenCount: number;
+  hasDigits: boolean;
+  hasEmailOrPhone: boolean;
+  page?: number; // 1-based source page (PDF only)
+  score?: number;
+};
+
+export type ExtractedDocument = {
+  format: DocumentFormat;
+  text: string;
+  firstPageLines: LayoutLine[];
+  // Style of every line of `text`, in order (empty when the format has no line styles)
+  lines: LayoutLine[];
+  viewportWidth: number;
+};
+
+const emailRe = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/i;
+const phoneRe = /\+?[0-9][0-9()\s.-]{5,}/;
+
+/* ------------------------------ Shared helpers ----------------------------- */
+
+// Flowing formats have no real page geometry; lines get synthetic positions on a Letter-sized page.
+const PAGE_WIDTH = 612;
+const PAGE_TOP = 792;
+const LINE_HEIGHT = 14;
+const FIRST_PAGE_LINES = 60;
+const BODY_FONT = 11;
+const HEADING_FONTS = [24, 20, 16, 14, 12, 12]; // h1..h6
+
+type StyledLine = { text: string; font: number; bold: boolean; centered: boolean };
+
+function toLayoutLine(l: StyledLine, index: number): LayoutLine {
+  const text = l.text.replace(/\s+/g, " ").trim();
+  return {
+    text,
+    y: PAGE_TOP - index * LINE_HEIGHT,
+    x: 0,
+    width: PAGE_WIDTH,
+    maxFont: l.font,
+    avgFont: l.font,
+    centered: l.centered,
+    bold: l.bold,
+    tokenCount: text.split(/\s+/).filter(Boolean).length,
+    hasDigits: /\d/.test(text),
+    hasEmailOrPhone: emailRe.test(text) || phoneRe.test(text),
+  };
+}
+
+function layoutFromStyledLines(lines: StyledLine[]): LayoutLine[] {
+  return lines
+    .filter((l) => l.text.trim())
+    .slice(0, FIRST_PAGE_LINES)
+    .map(toLayoutLine);
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ",
+  ndash: "–", mdash: "—", bull: "•", middot: "·", copy: "©", hellip: "…",
+};
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const cp = e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(cp) && cp <= 0x10ffff ? String.fromCodePoint(cp) : m;
+    }
+    return NAMED_ENTITIES[e.toLowerCase()] ?? m;
+  });
+}
+
+// Tokenize XML/HTML into tags and text. Good enough for machine-generated markup; not a validator.
+type MarkupToken =
+  | { type: "open"; name: string; attrs: string; selfClosing: boolean }
+  | { type: "close"; name: string }
+  | { type: "text"; text: string };
+
+function* tokenizeMarkup(src: string): Generator<MarkupToken> {
+  const re = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[!?][^>]*>|<(\/?)([A-Za-z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+|<)/g;
+  for (const m of src.matchAll(re)) {
+    if (m[1] != null) yield { type: "text", text: m[1] };
+    else if (m[3]) {
+      const name = m[3].toLowerCase();
+      if (m[2]) yield { type: "close", name };
+      else yield { type: "open", name, attrs: m[4] ?? "", selfClosing: !!m[5] };
+    } else if (m[6] != null) {
+      yield { type: "text", text: decodeEntities(m[6]) };
+    }
+  }
+}
+
+function attr(attrs: string, name: string): string | undefined {
+  const re = new RegExp(`(?:^|\\s)${name.replace(/[.:]/g, "\\$&")}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, "i");
+  const m = re.exec(attrs);
+  return m ? decodeEntities(m[1] ?? m[2] ?? m[3] ?? "") : undefined;
+}
+
+/* ---------------------------------- PDF ----------------------------------- */
+
+// Lazy-load pdfjs so we only pay the cost when redacting PDFs.
+async function loadPdfJs(): Promise<PdfjsLike> {
+  // Resolve via package.json dependency (node_modules) to satisfy lint rules. The legacy build
+  // carries the polyfills (Promise.withResolvers, …) needed on Node < 22.
+  const mod = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  return mod as unknown as PdfjsLike;
+}
+
+// Minimal PDF.js typings for the subset we use
+type PdfPage = {
+  getTextContent(): Promise<{ items: Array<{ str: string }> }>;
+  getViewport(opts: { scale: number }): { width: number };
+};
+type PdfDocument = {
+  numPages: number;
+  getPage(n: number): Promise<PdfPage>;
+};
+type PdfLoadingTask = { promise: Promise<PdfDocument> };
+type PdfjsLike = {
+  getDocument: (src: { data: Uint8Array; verbosity?: number } | { url: string }) => PdfLoadingTask;
+};
+
+type PdfItem = { str: string; transform: number[]; fontName?: string };
+
+function fontSizeFromTransform(t: number[]) {
+  const sx = Math.hypot(t[0], t[1]);
+  const sy = Math.hypot(t[2], t[3]);
+  return Math.max(sx, sy);
+}
+function isBoldFontName(name: string) {
+  const n = name?.toLowerCase?.() ?? "";
+  return n.includes("bold") || n.includes("semibold") || n.includes("demi") || n.includes("black");
+}
+
+// Group a page's text items into lines by baseline y, top to bottom.
+function groupPageLines(items: PdfItem[], pageWidth: number, page: number): LayoutLine[] {
+  const byY: Record<
+    string,
+    { str: string; x: number; y: number; fs: number; fontName?: string }[]
+  > = {};
+  for (const it of items) {
+    if (!it.str || !it.transform) continue;
+    const t = it.transform;
+    const y = t[5];
+    const x = t[4];
+    const fs = fontSizeFromTransform(t);
+    const ky = String(Math.round(y));
+    (byY[ky] ??= []).push({ str: it.str, x, y, fs, fontName: it.fontName });
+  }
+
+  const lines: LayoutLine[] = [];
+  const keys = Object.keys(byY).map(Number).sort((a, b) => b - a); // top->bottom (higher y first)
+  for (const ky of keys) {
+    const runs = byY[ky].sort((a, b) => a.x - b.x);
+    const text = runs.map((r) => r.str).join(" ").replace(/\s+/g, " ").trim();
+    if (!text) continue;
+    const maxFont = Math.max(...runs.map((r) => r.fs));
+    const avgFont = runs.reduce((s, r) => s + r.fs, 0) / runs.length;
+    const xMin = runs[0].x, xMax = runs[runs.length - 1].x;
+    const width = Math.max(0, xMax - xMin);
+    const pageCenter = pageWidth / 2;
+    const lineCenter = xMin + width / 2;
+    const centered = Math.abs(lineCenter - pageCenter) < pageWidth * 0.15;
+    const bold = runs.some((r) => (r.fontName && isBoldFontName(r.fontName)) || false);
+    const tokenCount = text.trim().split(/\s+/).filter(Boolean).length;
+    const hasDigits = /\d/.test(text);
+    const hasEmailOrPhone = emailRe.test(text) || phoneRe.test(text);
+    lines.push({
+      text,
+      y: ky,
+      x: xMin,
+      width,
+      maxFont,
+      avgFont,
+      centered,
+      bold,
+      tokenCount,
+      hasDigits,
+      hasEmailOrPhone,
+      page,
+    });
+  }
+  return lines;
+
+}
+
+async function pdfExtractWithLayout(pdfPath: string): Promise<ExtractedDocument> {
+  // Read as a plain Uint8Array (PDF.js rejects Node Buffers)
+  const data = new Uint8Array(await fs.readFile(pdfPath));
+
+  // Pass Uint8Array to PDF.js (loaded on demand)
+  const pdfjs = await loadPdfJs();
+  // verbosity 0: errors only (no font-loading warnings; glyph shapes are not needed for text)
+  const doc = await pdfjs.getDocument({ data, verbosity: 0 }).promise;
+
+  // Group each page's items into lines by baseline y; the text is those lines in reading order
+  const lines: LayoutLine[] = [];
+  let viewportWidth = PAGE_WIDTH;
+  for (let i = 1; i <= doc.numPages; i++) {
+    const page = await doc.getPage(i);
+    const viewport = page.getViewport({ scale: 1.0 });
+    if (i === 1) viewportWidth = viewport.width;
+    const content = await page.getTextContent();
+    lines.push(...groupPageLines((content.items || []) as PdfItem[], viewport.width, i));
+  }
+
+  return {
+    format: "pdf",
+    text: lines.map((l) => l.text).join("\n") + "\n",
+    firstPageLines: lines.filter((l) => l.page === 1),
+    lines,
+    viewportWidth,
+  };
+}
+
+/* ---------------------------------- DOCX ---------------------------------- */
+
+type ZipEntry = { name: string; method: number; compSize: number; localOffset: number };
+
+// Central directory of a ZIP archive (no ZIP64); null when `buf` holds no end-of-directory record.
+function zipDirectory(buf: Buffer): ZipEntry[] | null {
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let p = buf.readUInt32LE(eocd + 16);
+  const out: ZipEntry[] = [];
+  for (let n = 0; n < count; n++) {
+    if (p + 46 > buf.length || buf.readUInt32LE(p) !== 0x02014b50) {
+      throw new Error("Corrupt DOCX file (bad ZIP entry)");
+    }
+    const nameLen = buf.readUInt16LE(p + 28);
+    out.push({
+      name: buf.toString("utf8", p + 46, p + 46 + nameLen),
+      method: buf.readUInt16LE(p + 10),
+      compSize: buf.readUInt32LE(p + 20),
+      localOffset: buf.readUInt32LE(p + 42),
+    });
+    p += 46 + nameLen + buf.readUInt16LE(p + 30) + buf.readUInt16LE(p + 32);
+  }
+  return out;
+}
+
+// Read the named entries of a ZIP archive (stored or deflated; no ZIP64, no encryption).
+function readZipEntries(buf: Buffer, wanted: (name: string) => boolean): Map<string, Buffer> {
+  const entries = zipDirectory(buf);
+  if (!entries) throw new Error("Not a valid DOCX file (ZIP directory not found)");
+
+  const out = new Map<string, Buffer>();
+  for (const e of entries) {
+    if (!wanted(e.name)) continue;
+    const { localOffset } = e;
+    const dataStart = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28);
+    const data = buf.subarray(dataStart, dataStart + e.compSize);
+    if (e.method === 0) out.set(e.name, Buffer.from(data));
+    else if (e.method === 8) out.set(e.name, inflateRawSync(data));
+    else throw new Error(`Unsupported DOCX compression method ${e.method} in ${e.name}`);
+  }
+  return out;
+}
+
+// A ZIP is a DOCX when its central directory lists word/document.xml. Only the start of the file
+// may be at hand: then fall back to a "word/" entry name among the first local headers.
+function isDocxZip(buf: Buffer): boolean {
+  try {
+    const entries = zipDirectory(buf);
+    if (entries) return entries.some((e) => e.name === "word/document.xml");
+  } catch {
+    // unreadable directory: use the fallback below
+  }
+  return buf.subarray(0, 512).toString("latin1").includes("word/");
+}
+
+type DocxStyle = { font?: number; bold?: boolean; centered?: boolean; basedOn?: string; heading?: number };
+
+const onOff = (attrs: string) => !/w:val\s*=\s*["'](0|false|off)["']/i.test(attrs);
+
+// Paragraph styles from word/styles.xml: size (half-points), bold, alignment and outline level.
+function parseDocxStyles(xml: string): { styles: Map<string, DocxStyle>; defaultFont: number } {
+  const styles = new Map<string, DocxStyle>();
+  let defaultFont = BODY_FONT;
+  let cur: DocxStyle | null = null;
+  let inDefaults = false;
+  for (const t of tokenizeMarkup(xml)) {
+    if (t.type === "close") {
+      if (t.name === "w:style") cur = null;
+      if (t.name === "w:docdefaults") inDefaults = false;
+      continue;
+    }
+    if (t.type !== "open") continue;
+    switch (t.name) {
+      case "w:docdefaults":
+        inDefaults = true;
+        break;
+      case "w:style":
+        cur = {};
+        styles.set(attr(t.attrs, "w:styleId") ?? "", cur);
+        break;
+      case "w:name": {
+        const m = /^(?:heading\s*(\d)|(title))$/i.exec(attr(t.attrs, "w:val") ?? "");
+        if (cur && m) cur.heading = m[2] ? 0 : Number(m[1]);
+        break;
+      }
+      case "w:basedon":
+        if (cur) cur.basedOn = attr(t.attrs, "w:val");
+        break;
+      case "w:sz": {
+        const sz = Number(attr(t.attrs, "w:val")) / 2;
+        if (!Number.isFinite(sz)) break;
+        if (cur) cur.font = sz;
+        else if (inDefaults) defaultFont = sz;
+        break;
+      }
+      case "w:b":
+        if (cur) cur.bold = onOff(t.attrs);
+        break;
+      case "w:jc":
+        if (cur) cur.centered = attr(t.attrs, "w:val") === "center";
+        break;
+    }
+  }
+  return { styles, defaultFont };
+}
+
+function resolveStyle(styles: Map<string, DocxStyle>, id: string | undefined, defaultFont: number) {
+  const out: Required<Omit<DocxStyle, "basedOn" | "heading">> = { font: defaultFont, bold: false, centered: false };
+  const chain: DocxStyle[] = [];
+  for (let s = id ? styles.get(id) : undefined; s && chain.length < 10; s = s.basedOn ? styles.get(s.basedOn) : undefined) {
+    chain.unshift(s);
+  }
+  for (const s of chain) {
+    // Heading styles without explicit formatting still rank like headings
+    if (s.heading != null && s.font == null) out.font = HEADING_FONTS[Math.max(0, s.heading - 1)] ?? out.font;
+    if (s.heading === 0 && s.font == null) out.font = 28;
+    if (s.font != null) out.font = s.font;
+    if (s.bold != null) out.bold = s.bold;
+    if (s.centered != null) out.centered = s.centered;
+  }
+  return out;
+}
+
+// WordprocessingML body → styled lines. Handles nested paragraphs (text boxes) and soft breaks.
+function parseDocxDocument(xml: string, styles: Map<string, DocxStyle>, defaultFont: number): StyledLine[] {
+  type Para = {
+    styleId?: string;
+    centered?: boolean;
+    runs: Array<{ text: string; font?: number; bold?: boolean }>;
+  };
+  type Run = { font?: number; bold?: boolean };
+
+  const lines: StyledLine[] = [];
+  const stack: Para[] = [];
+  let run: Run | null = null;
+  let inText = false;
+
+  const flush = (p: Para) => {
+    const base = resolveStyle(styles, p.styleId, defaultFont);
+    const centered = p.centered ?? base.centered;
+    let cur: StyledLine | null = null;
+    const push = () => {
+      if (cur) lines.push(cur);
+      cur = null;
+    };
+    for (const r of p.runs) {
+      for (const [i, piece] of r.text.split("\n").entries()) {
+        if (i > 0) push();
+        cur ??= { text: "", font: 0, bold: true, centered };
+        if (!piece) continue;
+        cur.text += piece;
+        cur.font = Math.max(cur.font, r.font ?? base.font);
+        if (piece.trim()) cur.bold &&= r.bold ?? base.bold;
+      }
+    }
+    push();
+  };
+
+  for (const t of tokenizeMarkup(xml)) {
+    const para = stack[stack.length - 1];
+    if (t.type === "text") {
+      if (inText && para && run) para.runs.push({ text: t.text, ...run });
+      continue;
+    }
+    if (t.type === "close") {
+      if (t.name === "w:t") inText = false;
+      else if (t.name === "w:r") run = null;
+      else if (t.name === "w:p") {
+        const done = stack.pop();
+        if (done) flush(done);
+      }
+      continue;
+    }
+    switch (t.name) {
+      case "w:p":
+        if (!t.selfClosing) stack.push({ runs: [] });
+        else lines.push({ text: "", font: defaultFont, bold: false, centered: false });
+        break;
+      case "w:pstyle":
+        if (para) para.styleId = attr(t.attrs, "w:val");
+        break;
+      case "w:jc":
+        if (para && !run) para.centered = attr(t.attrs, "w:val") === "center";
+        break;
+      case "w:r":
+        if (!t.selfClosing) run = {};
+        break;
+      case "w:b":
+        if (run) run.bold = onOff(t.attrs);
+        break;
+      case "w:sz": {
+        const sz = Number(attr(t.attrs, "w:val")) / 2;
+        if (run && Number.isFinite(sz)) run.font = sz;
+        break;
+      }
+      case "w:t":
+        inText = !t.selfClosing;
+        break;
+      case "w:tab":
+        if (para && run) para.runs.push({ text: "\t", ...run });
+        break;
+      case "w:br":
+      case "w:cr":
+        if (para && run) para.runs.push({ text: "\n", ...run });
+        break;
+    }
+  }
+  return lines;
+}
+
+async function docxExtract(filePath: string): Promise<ExtractedDocument> {
+  const buf = await fs.readFile(filePath);
+  const parts = readZipEntries(buf, (n) => /^word\/(document|styles|header\d*|footer\d*)\.xml$/.test(n));
+  const body = parts.get("word/document.xml");
+  if (!body) throw new Error("Not a valid DOCX file (word/document.xml missing)");
+
+  const { styles, defaultFont } = parseDocxStyles(parts.get("word/styles.xml")?.toString("utf8") ?? "");
+  const parse = (name: string) => parseDocxDocument(parts.get(name)!.toString("utf8"), styles, defaultFont);
+  const byName = (re: RegExp) => [...parts.keys()].filter((n) => re.test(n)).sort();
+
+  // Page headers often carry the name and contact line, so they come first
+  const headers = byName(/^word\/header\d*\.xml$/).flatMap(parse);
+  const main = parse("word/document.xml");
+  const footers = byName(/^word\/footer\d*\.xml$/).flatMap(parse);
+
+  const all = [...headers, ...main, ...footers];
+  return {
+    format: "docx",
+    text: all.map((l) => l.text).join("\n") + "\n",
+    firstPageLines: layoutFromStyledLines([...headers, ...main]),
+    lines: all.map(toLayoutLine),
+    viewportWidth: PAGE_WIDTH,
+  };
+}
+
+/* -------------------------------- Markdown -------------------------------- */
+
+// Strip inline Markdown so layout lines read like rendered text (links keep their label).
+function stripInlineMarkdown(s: string): string {
+  return s
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(\*|_)(.+?)\1/g, "$2")
+    .replace(/`([^`]*)`/g, "$1")
+    .trim();
+}
+
+// The Markdown source itself is the redaction text (so output keeps its formatting);
+// headings and emphasis only drive the layout lines.
+export function markdownExtract(src: string): ExtractedDocument {
+  const raw = src.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const rows = raw.split("\n");
+  const lines: StyledLine[] = [];
+  // Per source row styles (the rendered text is the source, so rows keep their markup)
+  const rowStyles: StyledLine[] = rows.map((text) => ({ text, font: BODY_FONT, bold: false, centered: false }));
+  const styleRow = (i: number, l: StyledLine) => {
+    lines.push(l);
+    rowStyles[i] = { ...l, text: rows[i] };
+  };
+  let fence = false;
+  let front = rows[0]?.trim() === "---";
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    if (front) {
+      if (i > 0 && /^(---|\.\.\.)\s*$/.test(row)) front = false;
+      continue;
+    }
+    if (/^\s*(```|~~~)/.test(row)) {
+      fence = !fence;
+      continue;
+    }
+    if (fence || !row.trim()) continue;
+
+    const next = rows[i + 1] ?? "";
+    const atx = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(row);
+    if (atx) {
+      styleRow(i, { text: stripInlineMarkdown(atx[2]), font: HEADING_FONTS[atx[1].length - 1], bold: true, centered: false });
+    } else if (/^\s{0,3}(=+|-+)\s*$/.test(next) && !/^\s*[-*+]\s/.test(row)) {
+      // Setext heading: text underlined with === (h1) or --- (h2)
+      styleRow(i, { text: stripInlineMarkdown(row), font: HEADING_FONTS[next.includes("=") ? 0 : 1], bold: true, centered: false });
+      i++;
+    } else if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(row)) {
+      continue; // thematic break
+    } else {
+      const text = row.replace(/^\s*(?:>\s*)*(?:[-*+]\s+|\d+[.)]\s+)?/, "");
+      const bold = /^(\*\*|__)[^*_]+\1$/.test(text.trim());
+      const centered = /^<(?:center|p[^>]*align=["']?center)/i.test(text.trim());
+      styleRow(i, { text: stripInlineMarkdown(text), font: BODY_FONT, bold, centered });
+    }
+  }
+
+  return {
+    format: "markdown",
+    text: raw,
+    firstPageLines: layoutFromStyledLines(lines),
+    lines: rowStyles.map(toLayoutLine),
+    viewportWidth: PAGE_WIDTH,
+  };
+}
+
+/* ---------------------------------- HTML ---------------------------------- */
+
+const HTML_BLOCKS = new Set([
+  "address", "article", "aside", "blockquote", "body", "br", "dd", "div", "dl", "dt", "footer",
+  "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "li", "main", "nav", "ol", "p",
+  "pre", "section", "table", "td", "th", "title", "tr", "ul",
+]);
+const HTML_SKIP = new Set(["script", "style", "noscript", "template", "svg", "head"]);
+const HTML_VOID = new Set(["br", "hr", "img", "input", "meta", "link", "col", "area", "base", "wbr", "source"]);
+
+function cssFontSize(style: string | undefined): number | undefined {
+  const m = /font-size\s*:\s*([\d.]+)\s*(px|pt|em|rem)?/i.exec(style ?? "");
+  if (!m) return undefined;
+  const n = Number(m[1]);
+  if (m[2] === "px") return n * 0.75;
+  if (m[2] === "em" || m[2] === "rem") return n * BODY_FONT;
+  return n;
+}
+
+export function htmlExtract(src: string): ExtractedDocument {
+  type Frame = { name: string; font: number; bold: boolean; centered: boolean };
+  const stack: Frame[] = [{ name: "#root", font: BODY_FONT, bold: false, centered: false }];
+  const lines: StyledLine[] = [];
+  let cur: StyledLine | null = null;
+  let curBold = true;
+  let skipDepth = 0;
+  let titleText = "";
+
+  const endLine = () => {
+    if (cur && cur.text.trim()) lines.push({ ...cur, bold: curBold });
+    cur = null;
+    curBold = true;
+  };
+
+  for (const t of tokenizeMarkup(src)) {
+    const top = stack[stack.length - 1];
+    if (t.type === "text") {
+      if (skipDepth > 0) {
+        if (top.name === "title") titleText += t.text;
+        continue;
+      }
+      const text = top.name === "pre" ? t.text : t.text.replace(/\s+/g, " ");
+      if (!text) continue;
+      cur ??= { text: "", font: 0, bold: true, centered: top.centered };
+      cur.text += text;
+      if (text.trim()) {
+        cur.font = Math.max(cur.font, top.font);
+        curBold &&= top.bold;
+      }
+      continue;
+    }
+
+    if (t.type === "close") {
+      const idx = stack.map((f) => f.name).lastIndexOf(t.name);
+      if (idx <= 0) continue;
+      const popped = stack.splice(idx);
+      skipDepth = Math.max(0, skipDepth - popped.filter((f) => HTML_SKIP.has(f.name)).length);
+      if (HTML_BLOCKS.has(t.name)) endLine();
+      continue;
+    }
+
+    if (HTML_BLOCKS.has(t.name)) endLine();
+    if (t.selfClosing || HTML_VOID.has(t.name)) continue;
+
+    if (HTML_SKIP.has(t.name)) skipDepth++;
+    const style = attr(t.attrs, "style");
+    const heading = /^h([1-6])$/.exec(t.name);
+    stack.push({
+      name: t.name,
+      font: cssFontSize(style) ?? (heading ? HEADING_FONTS[Number(heading[1]) - 1] : top.font),
+      bold: top.bold || /^(b|strong|th)$/.test(t.name) || !!heading || /font-weight\s*:\s*(bold|[6-9]00)/i.test(style ?? ""),
+      centered: t.name === "center" || attr(t.attrs, "align")?.toLowerCase() === "center" ||
+        /text-align\s*:\s*center/i.test(style ?? "") || (top.centered && !/text-align\s*:\s*(left|right)/i.test(style ?? "")),
+    });
+    if (t.name === "title") titleText = "";
+  }
+  endLine();
+
+  // The <title> often repeats the name ("Jane Doe – Resume"): include it in the text to scan
+  const title = titleText.replace(/\s+/g, " ").trim();
+  const all = [...(title ? [{ text: title, font: BODY_FONT, bold: false, centered: false }] : []), ...lines];
+  return {
+    format: "html",
+    text: all.map((l) => l.text.trim()).join("\n") + "\n",
+    firstPageLines: layoutFromStyledLines(lines),
+    lines: all.map(toLayoutLine),
+    viewportWidth: PAGE_WIDTH,
+  };
+}
+
+/* ----------------------------------- RTF ---------------------------------- */
+
+// Destinations whose content is not document text
+const RTF_SKIP = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "object", "themedata", "colorschememapping",
+  "datastore", "latentstyles", "listtable", "listoverridetable", "rsidtbl", "generator", "xmlnstbl",
+  "fldinst", "bkmkstart", "bkmkend", "filetbl", "revtbl", "pgdsctbl", "mmathPr",
+]);
+
+export function rtfExtract(src: string): ExtractedDocument {
+  type State = { skip: boolean; bold: boolean; font: number; centered: boolean; uc: number };
+  const cp1252 = new TextDecoder("windows-1252");
+  const stack: State[] = [];
+  let st: State = { skip: false, bold: false, font: 12, centered: false, uc: 1 };
+  const lines: StyledLine[] = [];
+  let cur: StyledLine = { text: "", font: 0, bold: true, centered: false };
+  let pendingSkip = 0; // chars to skip after \uN
+  let groupStart = false;
+
+  const emit = (s: string) => {
+    if (st.skip) return;
+    if (pendingSkip > 0) {
+      // \uN is followed by N fallback chars for readers without Unicode support
+      const n = Math.min(pendingSkip, s.length);
+      pendingSkip -= n;
+      s = s.slice(n);
+      if (!s) return;
+    }
+    cur.text += s;
+    if (s.trim()) {
+      cur.font = Math.max(cur.font, st.font);
+      cur.bold &&= st.bold;
+    }
+    cur.centered = st.centered;
+  };
+  const endPara = () => {
+    lines.push(cur.text.trim() ? cur : { ...cur, text: "" });
+    cur = { text: "", font: 0, bold: true, centered: st.centered };
+  };
+
+  const re = /\\([a-zA-Z]+)(-?\d+)? ?|\\'([0-9a-fA-F]{2})|\\([^a-zA-Z])|([{}])|(\r?\n)|([^\\{}\r\n]+)/g;
+  for (const m of src.matchAll(re)) {
+    const wasGroupStart: boolean = groupStart;
+    groupStart = false;
+    if (m[5] === "{") {
+      stack.push({ ...st });
+      groupStart = true;
+    } else if (m[5] === "}") {
+      st = stack.pop() ?? st;
+    } else if (m[6]) {
+      // Raw newlines are not significant in RTF
+    } else if (m[7]) {
+      emit(m[7]);
+    } else if (m[3]) {
+      emit(cp1252.decode(Uint8Array.of(parseInt(m[3], 16))));
+    } else if (m[4]) {
+      if (m[4] === "*" && wasGroupStart) st.skip = true;
+      else if (m[4] === "~") emit(" ");
+      else if (m[4] === "-" || m[4] === "_") emit(m[4] === "_" ? "-" : "");
+      else if (m[4] === "\\" || m[4] === "{" || m[4] === "}") emit(m[4]);
+      else if (m[4] === "\n" || m[4] === "\r") endPara();
+      groupStart = wasGroupStart && m[4] === "*";
+    } else if (m[1]) {
+      const word = m[1];
+      const n = m[2] != null ? Number(m[2]) : undefined;
+      if (wasGroupStart && RTF_SKIP.has(word)) {
+        st.skip = true;
+        continue;
+      }
+      switch (word) {
+        case "par":
+        case "sect":
+        case "page":
+        case "row":
+        case "line":
+          endPara();
+          break;
+        case "tab":
+        case "cell":
+          emit("\t");
+          break;
+        case "b":
+          st.bold = n !== 0;
+          break;
+        case "fs":
+          if (n) st.font = n / 2;
+          break;
+        case "plain":
+          st.bold = false;
+          st.font = 12;
+          break;
+        case "qc":
+          st.centered = true;
+          break;
+        case "ql":
+        case "qr":
+        case "qj":
+        case "pard":
+          st.centered = false;
+          break;
+        case "uc":
+          st.uc = n ?? 1;
+          break;
+        case "u":
+          if (n != null) {
+            emit(String.fromCharCode(n < 0 ? n + 65536 : n));
+            pendingSkip = st.skip ? 0 : st.uc;
+          }
+          break;
+        case "emdash":
+          emit("—");
+          break;
+        case "endash":
+          emit("–");
+          break;
+        case "bullet":
+          emit("•");
+          break;
+        case "lquote":
+        case "rquote":
+          emit("'");
+          break;
+        case "ldblquote":
+        case "rdblquote":
+          emit("\"");
+          break;
+      }
+    }
+  }
+  if (cur.text.trim()) endPara();
+
+  return {
+    format: "rtf",
+    text: lines.map((l) => l.text).join("\n") + "\n",
+    firstPageLines: layoutFromStyledLines(lines),
+    lines: lines.map(toLayoutLine),
+    viewportWidth: PAGE_WIDTH,
+  };
+}
+
+/* -------------------------------- Dispatch -------------------------------- */
+
+const FORMAT_BY_EXT: Record<string, DocumentFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".html": "html",
+  ".htm": "html",
+  ".xhtml": "html",
+  ".rtf": "rtf",
+};
+
+export function detectFormat(filePath: string, head?: Buffer): DocumentFormat {
+  const byExt = FORMAT_BY_EXT[path.extname(filePath).toLowerCase()];
+  if (byExt) return byExt;
+  // Sniff common signatures when the extension is missing or unknown
+  if (head) {
+    const s = head.subarray(0, 512).toString("latin1");
+    if (s.startsWith("%PDF-")) return "pdf";
+    if (s.startsWith("PK\x03\x04") && isDocxZip(head)) return "docx";
+    if (s.startsWith("{\\rtf")) return "rtf";
+    if (/^\s*(<!doctype html|<html)/i.test(s)) return "html";
+  }
+  return "text";
+}
+
+async function readHead(filePath: string): Promise<Buffer> {
+  const fh = await fs.open(filePath, "r");
+  try {
+    const buf = Buffer.alloc(512);
+    const { bytesRead } = await fh.read(buf, 0, buf.length, 0);
+    return buf.subarray(0, bytesRead);
+  } finally {
+    await fh.close();
+  }
+}
+
+export async function extractDocument(filePath: string): Promise<ExtractedDocument> {
+  let head = await readHead(filePath);
+  // ZIP contents are listed at the end of the file: sniff unknown extensions on the whole file
+  if (!FORMAT_BY_EXT[path.extname(filePath).toLowerCase()] && head.toString("latin1", 0, 4) === "PK\x03\x04") {
+    head = await fs.readFile(filePath);
+  }
+  switch (detectFormat(filePath, head)) {
+    case "pdf":
+      return await pdfExtractWithLayout(filePath);
+    case "docx":
+      return await docxExtract(filePath);
+    case "markdown":
+      return markdownExtract(await fs.readFile(filePath, { encoding: "utf8" }));
+    case "html":
+      return htmlExtract(await fs.readFile(filePath, { encoding: "utf8" }));
+    case "rtf":
+      return rtfExtract(await fs.readFile(filePath, { encoding: "latin1" }));
+    case "text":
+      return {
+        format: "text",
+        text: await fs.readFile(filePath, { encoding: "utf8" }),
+        firstPageLines: [],
+        lines: [],
+        viewportWidth: PAGE_WIDTH,
+      };
+  }
+}
@@ -0,0 +1,243 @@
+// LLM flagger backed by a local Ollama-compatible HTTP endpoint (POST /api/generate).
+// Long resumes are split into overlapping chunks; spans returned by the model are re-anchored to
+// the exact text because model-reported offsets are unreliable. Nothing leaves the machine unless
+// the endpoint itself is remote.
+
+import { cfg } from "./config";
+import type { Kind, LLMFlagger } from "./pii";
+
+export type FlaggedSpan = { start: number; end: number; label: Kind; score?: number };
+
+export interface OllamaFlaggerOptions {
+  endpoint?: string; // base URL, e.g. http://127.0.0.1:11434
+  model?: string;
+  chunkSize?: number; // max characters per request
+  overlap?: number; // characters shared by neighbouring chunks
+  timeoutMs?: number; // per request
+}
+
+const LABELS: Record<string, Kind> = {
+  name: "name",
+  person: "name",
+  per: "name",
+  full_name: "name",
+  email: "email",
+  email_address: "email",
+  phone: "phone",
+  phone_number: "phone",
+  telephone: "phone",
+  address: "address",
+  street_address: "address",
+  url: "url",
+  website: "url",
+  linkedin: "linkedin",
+  github: "github",
+  org: "org",
+  organization: "org",
+  organisation: "org",
+  company: "org",
+  employer: "org",
+  loc: "loc",
+  location: "loc",
+  city: "loc",
+  gpe: "loc",
+  id: "id",
+  national_id: "id",
+  ssn: "id",
+};
+
+const PROMPT = `You find personal information in resume text.
+Return JSON only: {"spans":[{"text":"<exact substring>","label":"<label>","start":<offset>}]}
+Labels: name, email, phone, address, url, linkedin, github, org, loc, id.
+- "text" must be copied exactly from the input; "start" is its character offset in the input.
+- Report every occurrence. Skip job titles, skills and section headings.
+- If nothing is found return {"spans":[]}.
+
+Input:
+`;
+
+/* ------------------------------- Chunking --------------------------------- */
+
+export type Chunk = { offset: number; text: string };
+
+// Split text into chunks of at most `size` chars, preferring line then word boundaries,
+// with `overlap` chars repeated at the start of the next chunk.
+export function chunkText(text: string, size = 2000, overlap = 200): Chunk[] {
+  const chunks: Chunk[] = [];
+  const ov = Math.max(0, Math.min(overlap, Math.floor(size / 2)));
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + size);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const nl = window.lastIndexOf("\n");
+      const sp = window.lastIndexOf(" ");
+      const cut = nl > size / 2 ? nl + 1 : sp > size / 2 ? sp + 1 : window.length;
+      end = start + cut;
+    }
+    chunks.push({ offset: start, text: text.slice(start, end) });
+    if (end >= text.length) break;
+    // Back up by the overlap, but always move forward and start at a word boundary when possible
+    let next = Math.max(start + 1, end - ov);
+    const ws = text.slice(next, end).search(/\s/);
+    if (ws >= 0 && next + ws + 1 < end) next += ws + 1;
+    start = next;
+  }
+  return chunks;
+}
+
+/* ----------------------------- Response parsing ---------------------------- */
+
+// Pull the first JSON object/array out of a model reply (handles code fences and prose).
+export function extractJson(reply: string): unknown {
+  const s = reply.replace(/```(?:json)?/gi, "");
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] !== "{" && s[i] !== "[") continue;
+    let depth = 0;
+    let inStr = false;
+    for (let j = i; j < s.length; j++) {
+      const c = s[j];
+      if (inStr) {
+        if (c === "\\") j++;
+        else if (c === "\"") inStr = false;
+      } else if (c === "\"") inStr = true;
+      else if (c === "{" || c === "[") depth++;
+      else if (c === "}" || c === "]") {
+        depth--;
+        if (depth === 0) {
+          try {
+            return JSON.parse(s.slice(i, j + 1));
+          } catch {
+            break; // not JSON after all; try the next opening bracket
+          }
+        }
+      }
+    }
+  }
+  return null;
+}
+
+type RawSpan = { text?: string; label: Kind; start?: number; end?: number; score?: number };
+
+function rawSpans(parsed: unknown): RawSpan[] {
+  const obj = parsed as Record<string, unknown> | null;
+  const list = Array.isArray(parsed)
+    ? parsed
+    : [obj?.spans, obj?.entities, obj?.pii, obj?.items, obj?.results].find(Array.isArray) ?? [];
+  const out: RawSpan[] = [];
+  for (const item of list as Array<Record<string, unknown>>) {
+    if (!item || typeof item !== "object") continue;
+    const rawLabel = item.label ?? item.kind ?? item.type ?? item.category ?? item.entity;
+    const label = LABELS[String(rawLabel ?? "").trim().toLowerCase().replace(/[\s-]+/g, "_")];
+    if (!label) continue;
+    const text = item.text ?? item.value ?? item.span;
+    const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : typeof v === "string" && /^\d+$/.test(v) ? Number(v) : undefined);
+    out.push({
+      label,
+      text: typeof text === "string" && text.trim() ? text.trim() : undefined,
+      start: num(item.start),
+      end: num(item.end),
+      score: num(item.score) ?? num(item.confidence),
+    });
+  }
+  return out;
+}
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Locate a reported span in the chunk: every exact occurrence of its text (whitespace-tolerant,
+// then case-insensitive). Bare offsets are only trusted when no text was returned.
+export function anchorSpan(chunk: string, s: RawSpan): Array<{ start: number; end: number }> {
+  if (s.text) {
+    const parts = s.text.split(/\s+/).map(escapeRegex).join("\\s+");
+    for (const flags of ["g", "gi"]) {
+      const hits = [...chunk.matchAll(new RegExp(parts, flags))].map((m) => ({
+        start: m.index!,
+        end: m.index! + m[0].length,
+      }));
+      if (hits.length) return hits;
+    }
+    return [];
+  }
+  if (s.start != null && s.end != null && s.start >= 0 && s.end > s.start && s.end <= chunk.length) {
+    return [{ start: s.start, end: s.end }];
+  }
+  return [];
+}
+
+/* -------------------------------- Flagger --------------------------------- */
+
+export class OllamaFlagger implements LLMFlagger {
+  readonly endpoint: string;
+  readonly model: string;
+  private chunkSize: number;
+  private overlap: number;
+  private timeoutMs: number;
+
+  constructor(opts: OllamaFlaggerOptions = {}) {
+    this.endpoint = (opts.endpoint ?? cfg.ollamaUrl).replace(/\/+$/, "");
+    this.model = opts.model ?? cfg.ollamaModel;
+    this.chunkSize = opts.chunkSize ?? 2000;
+    this.overlap = opts.overlap ?? 200;
+    this.timeoutMs = opts.timeoutMs ?? 120_000;
+  }
+
+  name() {
+    return `ollama:${this.model}`;
+  }
+
+  private async generate(prompt: string): Promise<string> {
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(), this.timeoutMs);
+    let res: Response;
+    let body: string;
+    try {
+      res = await fetch(`${this.endpoint}/api/generate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: this.model,
+          prompt,
+          stream: false,
+          format: "json",
+          options: { temperature: 0 },
+        }),
+        signal: ctrl.signal,
+      });
+      // Keep the timer running until the body is in: a stalled response must time out too
+      body = await res.text();
+    } catch (e: unknown) {
+      const why = ctrl.signal.aborted ? `timed out after ${this.timeoutMs} ms` : e instanceof Error ? e.message : String(e);
+      throw new Error(`Ollama endpoint ${this.endpoint} not reachable: ${why}`);
+    } finally {
+      clearTimeout(timer);
+    }
+    if (!res.ok) throw new Error(`Ollama request failed: ${res.status} ${res.statusText} ${body.slice(0, 200)}`);
+    try {
+      const obj = JSON.parse(body) as { response?: unknown; message?: { content?: unknown } };
+      return String(obj.response ?? obj.message?.content ?? "");
+    } catch {
+      return body;
+    }
+  }
+
+  async flag(text: string): Promise<FlaggedSpan[]> {
+    const seen = new Set<string>();
+    const out: FlaggedSpan[] = [];
+    for (const chunk of chunkText(text, this.chunkSize, this.overlap)) {
+      if (!chunk.text.trim()) continue;
+      const reply = await this.generate(PROMPT + chunk.text);
+      for (const s of rawSpans(extractJson(reply))) {
+        for (const hit of anchorSpan(chunk.text, s)) {
+          const start = chunk.offset + hit.start;
+          const end = chunk.offset + hit.end;
+          const key = `${start}:${end}:${s.label}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          out.push({ start, end, label: s.label, score: s.score });
+        }
+      }
+    }
+    return out.sort((a, b) => a.start - b.start || b.end - a.end);
+  }
+}
@@ -0,0 +1,104 @@
+// Bundled gazetteer for location redaction: major cities by country, plus US state codes for
+// "City, ST" patterns. City names that are also common English words or first names
+// (Nice, Reading, Mobile, Split, Florence, Victoria…) are left out to avoid false positives.
+
+export const CITIES_BY_COUNTRY: Record<string, readonly string[]> = {
+  "the US": [
+    "New York", "New York City", "NYC", "Los Angeles", "San Francisco", "San Jose", "Seattle", "Boston",
+    "Chicago", "Austin", "Dallas", "Houston", "San Antonio", "Denver", "Boulder", "Atlanta", "Miami",
+    "Philadelphia", "Pittsburgh", "Washington DC", "Washington, D.C.", "Baltimore", "Portland",
+    "Minneapolis", "Detroit", "Cleveland", "Columbus", "Cincinnati", "Indianapolis", "Nashville",
+    "Raleigh", "Salt Lake City", "Las Vegas", "Phoenix", "Tucson", "San Diego", "Sacramento",
+    "Oakland", "Palo Alto", "Mountain View", "Menlo Park", "Sunnyvale", "Cupertino", "Santa Clara",
+    "Redmond", "Bellevue", "Cambridge, MA", "Brooklyn", "Manhattan", "Jersey City", "Newark",
+    "St. Louis", "Kansas City", "Omaha", "Milwaukee", "Tampa", "Orlando", "Jacksonville",
+    "New Orleans", "Honolulu", "Anchorage", "Albuquerque", "Richmond", "Charlottesville",
+  ],
+  Canada: [
+    "Toronto", "Montreal", "Montréal", "Vancouver", "Calgary", "Edmonton", "Ottawa", "Waterloo",
+    "Winnipeg", "Quebec City", "Halifax",
+  ],
+  Mexico: ["Mexico City", "Guadalajara", "Monterrey", "Tijuana"],
+  Brazil: ["São Paulo", "Sao Paulo", "Rio de Janeiro", "Belo Horizonte", "Porto Alegre", "Curitiba", "Brasília"],
+  Argentina: ["Buenos Aires", "Córdoba", "Rosario"],
+  Chile: ["Santiago de Chile"],
+  Colombia: ["Bogotá", "Bogota", "Medellín", "Medellin"],
+  Peru: ["Lima"],
+  "the UK": [
+    "London", "Manchester", "Birmingham", "Edinburgh", "Glasgow", "Bristol", "Leeds", "Liverpool",
+    "Sheffield", "Newcastle", "Nottingham", "Oxford", "Belfast", "Cardiff", "Brighton",
+  ],
+  Ireland: ["Dublin", "Cork", "Galway", "Limerick"],
+  Germany: [
+    "Berlin", "Munich", "München", "Hamburg", "Frankfurt", "Cologne", "Köln", "Stuttgart", "Düsseldorf",
+    "Dusseldorf", "Leipzig", "Dresden", "Hanover", "Hannover", "Nuremberg", "Nürnberg", "Karlsruhe",
+    "Heidelberg", "Bonn", "Bremen", "Dortmund",
+  ],
+  Austria: ["Vienna", "Wien", "Graz", "Linz", "Salzburg", "Innsbruck"],
+  Switzerland: ["Zurich", "Zürich", "Geneva", "Genève", "Basel", "Lausanne", "Bern"],
+  France: ["Paris", "Lyon", "Marseille", "Toulouse", "Bordeaux", "Lille", "Nantes", "Strasbourg", "Grenoble", "Montpellier"],
+  Belgium: ["Brussels", "Bruxelles", "Antwerp", "Antwerpen", "Ghent", "Gent", "Leuven"],
+  Netherlands: ["Amsterdam", "Rotterdam", "The Hague", "Utrecht", "Eindhoven", "Delft"],
+  Luxembourg: ["Luxembourg City"],
+  Spain: ["Madrid", "Barcelona", "Valencia", "Seville", "Sevilla", "Bilbao", "Malaga", "Málaga", "Zaragoza"],
+  Portugal: ["Lisbon", "Lisboa", "Porto", "Braga", "Coimbra"],
+  Italy: ["Rome", "Roma", "Milan", "Milano", "Turin", "Torino", "Naples", "Napoli", "Bologna", "Genoa"],
+  Denmark: ["Copenhagen", "København", "Aarhus"],
+  Sweden: ["Stockholm", "Gothenburg", "Göteborg", "Malmö", "Malmo", "Uppsala"],
+  Norway: ["Oslo", "Bergen", "Trondheim"],
+  Finland: ["Helsinki", "Espoo", "Tampere", "Turku"],
+  Iceland: ["Reykjavik", "Reykjavík"],
+  Poland: ["Warsaw", "Warszawa", "Krakow", "Kraków", "Wroclaw", "Wrocław", "Gdansk", "Gdańsk", "Poznan", "Poznań", "Lodz", "Łódź"],
+  Czechia: ["Prague", "Praha", "Brno", "Ostrava"],
+  Slovakia: ["Bratislava", "Košice"],
+  Hungary: ["Budapest", "Debrecen"],
+  Romania: ["Bucharest", "București", "Cluj-Napoca", "Iasi", "Iași", "Timisoara", "Timișoara"],
+  Bulgaria: ["Plovdiv", "Varna"],
+  Greece: ["Athens", "Thessaloniki"],
+  Serbia: ["Belgrade", "Novi Sad"],
+  Croatia: ["Zagreb"],
+  Slovenia: ["Ljubljana"],
+  Estonia: ["Tallinn", "Tartu"],
+  Latvia: ["Riga"],
+  Lithuania: ["Vilnius", "Kaunas"],
+  Ukraine: ["Kyiv", "Kiev", "Kharkiv", "Lviv", "Odesa", "Odessa", "Dnipro"],
+  Belarus: ["Minsk"],
+  Moldova: ["Chisinau", "Chișinău"],
+  Russia: ["Moscow", "Saint Petersburg", "St. Petersburg", "Novosibirsk", "Yekaterinburg", "Kazan"],
+  Turkey: ["Istanbul", "Ankara", "Izmir", "İzmir"],
+  Israel: ["Tel Aviv", "Jerusalem", "Haifa"],
+  "the UAE": ["Dubai", "Abu Dhabi"],
+  "Saudi Arabia": ["Riyadh", "Jeddah"],
+  Qatar: ["Doha"],
+  Egypt: ["Cairo", "Alexandria"],
+  Morocco: ["Casablanca", "Rabat"],
+  Nigeria: ["Lagos", "Abuja"],
+  Kenya: ["Nairobi"],
+  "South Africa": ["Johannesburg", "Cape Town", "Durban", "Pretoria"],
+  India: [
+    "Bangalore", "Bengaluru", "Mumbai", "Delhi", "New Delhi", "Gurgaon", "Gurugram", "Noida", "Hyderabad",
+    "Chennai", "Pune", "Kolkata", "Ahmedabad", "Kochi", "Jaipur",
+  ],
+  Pakistan: ["Karachi", "Lahore", "Islamabad"],
+  Bangladesh: ["Dhaka"],
+  "Sri Lanka": ["Colombo"],
+  China: ["Beijing", "Shanghai", "Shenzhen", "Guangzhou", "Hangzhou", "Chengdu", "Nanjing", "Wuhan"],
+  "Hong Kong": ["Hong Kong"],
+  Taiwan: ["Taipei", "Hsinchu"],
+  Japan: ["Tokyo", "Osaka", "Kyoto", "Yokohama", "Nagoya", "Fukuoka"],
+  "South Korea": ["Seoul", "Busan", "Incheon"],
+  Singapore: ["Singapore"],
+  Malaysia: ["Kuala Lumpur", "Penang"],
+  Thailand: ["Bangkok", "Chiang Mai"],
+  Vietnam: ["Hanoi", "Ho Chi Minh City", "Saigon", "Da Nang"],
+  Indonesia: ["Jakarta", "Bandung", "Surabaya"],
+  Philippines: ["Manila", "Cebu"],
+  Australia: ["Sydney", "Melbourne", "Brisbane", "Perth", "Adelaide", "Canberra"],
+  "New Zealand": ["Auckland", "Wellington", "Christchurch"],
+};
+
+export const US_STATE_CODES = new Set([
+  "AL", "AK", "AZ", "AR", "CA", "CO", "CT", "DE", "FL", "GA", "HI", "ID", "IL", "IN", "IA", "KS", "KY",
+  "LA", "ME", "MD", "MA", "MI", "MN", "MS", "MO", "MT", "NE", "NV", "NH", "NJ", "NM", "NY", "NC", "ND",
+  "OH", "OK", "OR", "PA", "RI", "SC", "SD", "TN", "TX", "UT", "VT", "VA", "WA", "WV", "WI", "WY", "DC",
+]);
@@ -0,0 +1,252 @@
+// Validated detectors for structured identifiers: payment cards (Luhn), IBANs (mod 97), US SSN,
+// Canadian SIN (Luhn), UK National Insurance numbers, Indian Aadhaar numbers (Verhoeff) and phone
+// numbers (E.164 country codes and national number lengths). Candidates that fail validation are
+// dropped, which keeps years, date ranges and version numbers out of the results.
+// Every span carries a confidence score and the validator that accepted it.
+
+import type { Span } from "./pii";
+
+/* ------------------------------- Checksums -------------------------------- */
+
+export function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return digits.length > 1 && sum % 10 === 0;
+}
+
+// ISO 13616: move the first four characters to the end, letters → 10..35, remainder mod 97 must be 1
+export function ibanValid(iban: string): boolean {
+  const s = iban.toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(s)) return false;
+  let rem = 0;
+  for (const ch of s.slice(4) + s.slice(0, 4)) {
+    const v = ch >= "A" ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const d of v) rem = (rem * 10 + Number(d)) % 97;
+  }
+  return rem === 1;
+}
+
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+export function verhoeffValid(digits: string): boolean {
+  let c = 0;
+  for (let i = 0; i < digits.length; i++) {
+    c = VERHOEFF_D[c][VERHOEFF_P[i % 8][Number(digits[digits.length - 1 - i])]];
+  }
+  return c === 0;
+}
+
+/* ----------------------------- Phone metadata ------------------------------ */
+
+// Country calling code → region and national significant number length range.
+// Calling codes are prefix-free, so the first 1-3 digits after "+" identify the country.
+const CALLING_CODES: Record<string, [region: string, min: number, max: number]> = {
+  "1": ["NANP", 10, 10], "7": ["RU", 10, 10], "20": ["EG", 9, 10], "27": ["ZA", 9, 9],
+  "30": ["GR", 10, 10], "31": ["NL", 9, 9], "32": ["BE", 8, 9], "33": ["FR", 9, 9], "34": ["ES", 9, 9],
+  "36": ["HU", 8, 9], "39": ["IT", 6, 11], "40": ["RO", 9, 9], "41": ["CH", 9, 9], "43": ["AT", 4, 13],
+  "44": ["GB", 9, 10], "45": ["DK", 8, 8], "46": ["SE", 7, 10], "47": ["NO", 8, 8], "48": ["PL", 9, 9],
+  "49": ["DE", 6, 13], "51": ["PE", 8, 9], "52": ["MX", 10, 10], "54": ["AR", 10, 11], "55": ["BR", 10, 11],
+  "56": ["CL", 9, 9], "57": ["CO", 10, 10], "60": ["MY", 8, 10], "61": ["AU", 9, 9], "62": ["ID", 8, 12],
+  "63": ["PH", 10, 10], "64": ["NZ", 8, 10], "65": ["SG", 8, 8], "66": ["TH", 8, 9], "81": ["JP", 9, 10],
+  "82": ["KR", 8, 10], "84": ["VN", 9, 10], "86": ["CN", 10, 11], "90": ["TR", 10, 10], "91": ["IN", 10, 10],
+  "92": ["PK", 10, 10], "94": ["LK", 9, 9], "212": ["MA", 9, 9], "234": ["NG", 8, 10], "254": ["KE", 9, 9],
+  "351": ["PT", 9, 9], "352": ["LU", 4, 11], "353": ["IE", 7, 9], "354": ["IS", 7, 7], "358": ["FI", 5, 12],
+  "359": ["BG", 8, 9], "370": ["LT", 8, 8], "371": ["LV", 8, 8], "372": ["EE", 7, 8], "373": ["MD", 8, 8],
+  "375": ["BY", 9, 9], "380": ["UA", 9, 9], "381": ["RS", 8, 9], "385": ["HR", 8, 9], "386": ["SI", 8, 8],
+  "420": ["CZ", 9, 9], "421": ["SK", 9, 9], "852": ["HK", 8, 8], "880": ["BD", 10, 10], "886": ["TW", 8, 9],
+  "966": ["SA", 9, 9], "971": ["AE", 8, 9], "972": ["IL", 8, 9], "974": ["QA", 8, 8],
+};
+
+export type ParsedPhone = { country: string; e164?: string; score: number };
+
+const PHONE_LABEL = /(?:phone|tel|telephone|mobile|mob|cell|call|whatsapp|signal|fax|contact|☎|📞)\.?\s*[:#-]?\s*$/i;
+const YEAR = /^(?:19|20)\d{2}$/;
+const DATE = /^(?:\d{4}[-./]\d{1,2}[-./]\d{1,2}|\d{1,2}[-./]\d{1,2}[-./]\d{2,4})$/;
+const NANP = /^\(?[2-9]\d{2}\)?[ .-]?[2-9]\d{2}[ .-]?\d{4}$/;
+
+// Parse a phone candidate; null when it is not plausibly a phone number.
+export function parsePhone(raw: string, labeled = false): ParsedPhone | null {
+  const s = raw.trim();
+  const groups = s.split(/[ .()-]+/).filter(Boolean);
+  if (groups.length > 1 && groups.every((g) => YEAR.test(g))) return null; // 2019-2023
+  if (DATE.test(s)) return null;
+  if (/^\d{1,3}(?:\.\d{1,3}){3}$/.test(s)) return null; // IPv4
+  const boost = labeled ? 0.15 : 0;
+
+  const intl = /^(?:\+|00)/.test(s);
+  if (intl) {
+    const digits = s.replace(/^00/, "").replace(/\(0\)/, "").replace(/\D/g, "");
+    for (const len of [1, 2, 3]) {
+      const meta = CALLING_CODES[digits.slice(0, len)];
+      if (!meta) continue;
+      const [country, min, max] = meta;
+      const nsn = digits.slice(len);
+      if (nsn.length < min || nsn.length > max) return null;
+      if (country === "NANP" && !/^[2-9]\d{2}[2-9]/.test(nsn)) return null;
+      return { country, e164: `+${digits.slice(0, len)}${nsn}`, score: Math.min(0.99, 0.9 + boost) };
+    }
+    // Calling code not in the table: any E.164 length (7-15 digits), with a lower score
+    if (digits.length < 7 || digits.length > 15) return null;
+    return { country: "unknown", e164: `+${digits}`, score: 0.6 + boost };
+  }
+
+  const digits = s.replace(/\D/g, "");
+  if (digits.length < 7 || digits.length > 12) return null;
+  if (NANP.test(s) || (/^1[ .-]/.test(s) && NANP.test(s.slice(2)))) {
+    const nsn = digits.slice(-10);
+    return { country: "NANP", e164: `+1${nsn}`, score: Math.min(0.99, (/[ .()-]/.test(s) ? 0.8 : 0.5) + boost) };
+  }
+  if (/^0[1-9]/.test(digits) && digits.length >= 9 && digits.length <= 11 && (groups.length > 1 || labeled)) {
+    return { country: "national", score: 0.6 + boost };
+  }
+  if (labeled) return { country: "unknown", score: 0.6 };
+  return null;
+}
+
+/* -------------------------------- Detectors -------------------------------- */
+
+const PHONE_RE =
+  /(?<![\p{L}\p{N}/=@#_.+-])(?:(?:\+|00)[ ]?)?(?:\(\d{1,4}\)|\d{1,4})(?:[ .-]?(?:\(0\)[ ]?)?(?:\(\d{1,4}\)|\d{1,5})){1,6}(?![\p{L}\p{N}])/gu;
+const CARD_RE = /(?<![\p{N}-])\d(?:[ -]?\d){12,18}(?![\p{N}])/gu;
+const IBAN_RE = /(?<![\p{L}\p{N}])[A-Z]{2}\d{2}(?:[ ]?[A-Z0-9]{1,4}){3,8}(?![\p{L}\p{N}])/gu;
+const SSN_RE = /(?<![\p{N}-])(\d{3})([- ])(\d{2})\2(\d{4})(?![\p{N}-])/gu;
+const SIN_RE = /(?<![\p{N}-])(\d{3})([- ])(\d{3})\2(\d{3})(?![\p{N}-])/gu;
+const LABELED_NINE_RE = /(?<![\p{N}])\d{9}(?![\p{N}])/gu;
+const NIN_RE = /(?<![\p{L}\p{N}])([A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z])[ ]?(\d{2})[ ]?(\d{2})[ ]?(\d{2})[ ]?([A-D])(?![\p{L}\p{N}])/gu;
+const AADHAAR_RE = /(?<![\p{N}-])[2-9]\d{3}([ -]?)\d{4}\1\d{4}(?![\p{N}-])/gu;
+
+const IBAN_LENGTHS: Record<string, number> = {
+  AT: 20, BE: 16, BG: 22, BR: 29, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20, ES: 24, FI: 18,
+  FR: 27, GB: 22, GR: 27, HR: 21, HU: 28, IE: 22, IL: 23, IS: 26, IT: 27, LI: 21, LT: 20, LU: 20,
+  LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28, PT: 25, RO: 24, SA: 24, SE: 24, SI: 19, SK: 24,
+  TR: 26, UA: 29, AE: 23,
+};
+const NIN_BAD_PREFIXES = new Set(["BG", "GB", "NK", "KN", "TN", "NT", "ZZ"]);
+
+function labelBefore(text: string, index: number, re: RegExp) {
+  return re.test(text.slice(Math.max(0, index - 30), index));
+}
+
+function cardBrand(digits: string): string | null {
+  if (/^4/.test(digits) && [13, 16, 19].includes(digits.length)) return "visa";
+  if (/^(?:5[1-5]|2(?:2[2-9][1-9]|2[3-9]\d|[3-6]\d\d|7[01]\d|720))/.test(digits) && digits.length === 16) return "mastercard";
+  if (/^3[47]/.test(digits) && digits.length === 15) return "amex";
+  if (/^(?:6011|65|64[4-9])/.test(digits) && digits.length >= 16) return "discover";
+  if (/^35(?:2[89]|[3-8]\d)/.test(digits) && digits.length >= 16) return "jcb";
+  return null;
+}
+
+type Hit = { start: number; end: number; value: string; kind: Span["kind"]; validator: string; score: number; country?: string };
+
+// All validated identifier and phone spans. Detectors run from most to least specific; a
+// candidate overlapping an earlier hit is skipped (a card number is not also a phone number).
+export function findIdentifierSpans(text: string): Span[] {
+  const hits: Hit[] = [];
+  const free = (start: number, end: number) => !hits.some((h) => start < h.end && h.start < end);
+  const add = (h: Hit) => {
+    if (free(h.start, h.end)) hits.push(h);
+  };
+
+  for (const m of text.matchAll(IBAN_RE)) {
+    // Walk the match to the country's IBAN length so a following word is not swallowed
+    const want = IBAN_LENGTHS[m[0].slice(0, 2)];
+    let n = 0;
+    let end = m[0].length;
+    if (want) {
+      for (let i = 0; i < m[0].length; i++) {
+        if (m[0][i] !== " " && ++n === want) {
+          end = i + 1;
+          break;
+        }
+      }
+      if (n < want) continue;
+    }
+    const value = m[0].slice(0, end);
+    if (ibanValid(value.replace(/ /g, ""))) {
+      add({ start: m.index!, end: m.index! + end, value, kind: "id", validator: "iban-mod97", score: 0.99, country: value.slice(0, 2) });
+    }
+  }
+
+  for (const m of text.matchAll(CARD_RE)) {
+    const digits = m[0].replace(/\D/g, "");
+    if (!luhnValid(digits) || /^(\d)\1+$/.test(digits)) continue;
+    const brand = cardBrand(digits);
+    if (!brand && !labelBefore(text, m.index!, /(?:card|credit|debit|visa|mastercard|amex)\b.*$/i)) continue;
+    add({ start: m.index!, end: m.index! + m[0].length, value: m[0], kind: "id", validator: `luhn${brand ? `:${brand}` : ""}`, score: brand ? 0.95 : 0.8 });
+  }
+
+  for (const m of text.matchAll(AADHAAR_RE)) {
+    if (!verhoeffValid(m[0].replace(/\D/g, ""))) continue;
+    const labeled = labelBefore(text, m.index!, /(?:aadhaar|aadhar|uidai|uid)\b.*$/i);
+    if (!m[1] && !labeled) continue; // bare 12 digits pass Verhoeff one time in ten
+    add({ start: m.index!, end: m.index! + m[0].length, value: m[0], kind: "id", validator: "aadhaar-verhoeff", score: labeled ? 0.97 : 0.85, country: "IN" });
+  }
+
+  for (const m of text.matchAll(SSN_RE)) {
+    const [area, group, serial] = [m[1], m[3], m[4]];
+    if (area === "000" || area === "666" || area[0] === "9" || group === "00" || serial === "0000") continue;
+    const labeled = labelBefore(text, m.index!, /(?:ssn|social security(?: number| no\.?)?)\b.*$/i);
+    add({ start: m.index!, end: m.index! + m[0].length, value: m[0], kind: "id", validator: "us-ssn", score: labeled ? 0.97 : 0.8, country: "US" });
+  }
+
+  for (const m of text.matchAll(SIN_RE)) {
+    const digits = m[1] + m[3] + m[4];
+    if (/^[08]/.test(digits) || !luhnValid(digits)) continue;
+    const labeled = labelBefore(text, m.index!, /(?:sin|social insurance(?: number| no\.?)?)\b.*$/i);
+    add({ start: m.index!, end: m.index! + m[0].length, value: m[0], kind: "id", validator: "ca-sin-luhn", score: labeled ? 0.97 : 0.75, country: "CA" });
+  }
+
+  // Unformatted nine-digit SSN/SIN only next to their label
+  for (const m of text.matchAll(LABELED_NINE_RE)) {
+    const d = m[0];
+    if (labelBefore(text, m.index!, /(?:ssn|social security(?: number| no\.?)?)\W*$/i)) {
+      if (!/^(?:000|666|9)/.test(d) && d.slice(3, 5) !== "00" && d.slice(5) !== "0000") {
+        add({ start: m.index!, end: m.index! + 9, value: d, kind: "id", validator: "us-ssn", score: 0.9, country: "US" });
+      }
+    } else if (labelBefore(text, m.index!, /(?:sin|social insurance(?: number| no\.?)?)\W*$/i) && luhnValid(d)) {
+      add({ start: m.index!, end: m.index! + 9, value: d, kind: "id", validator: "ca-sin-luhn", score: 0.9, country: "CA" });
+    }
+  }
+
+  for (const m of text.matchAll(NIN_RE)) {
+    if (NIN_BAD_PREFIXES.has(m[1])) continue;
+    add({ start: m.index!, end: m.index! + m[0].length, value: m[0], kind: "id", validator: "uk-nin", score: 0.9, country: "GB" });
+  }
+
+  for (const m of text.matchAll(PHONE_RE)) {
+    const p = parsePhone(m[0], labelBefore(text, m.index!, PHONE_LABEL));
+    if (!p) continue;
+    add({ start: m.index!, end: m.index! + m[0].length, value: m[0], kind: "phone", validator: p.e164 ? "e164" : "phone-national", score: p.score, country: p.country });
+  }
+
+  return hits
+    .map((h): Span => ({
+      start: h.start,
+      end: h.end,
+      value: h.value,
+      kind: h.kind,
+      source: "regex",
+      rule: `validator:${h.validator}`,
+      validator: h.validator,
+      score: h.score,
+      country: h.country,
+    }))
+    .sort((a, b) => a.start - b.start);
+}
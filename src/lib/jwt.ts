@@ -0,0 +1,44 @@
+// Local JWT decoding for `auth whoami`/`auth token`. Claims are read WITHOUT verifying the
+// signature: fine for display and scripting, never for trust decisions. Opaque tokens decode to null.
+
+import { Buffer } from "node:buffer";
+import { isPlainObject } from "./diff";
+
+export type JwtClaims = Record<string, unknown> & {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  iat?: number;
+  email?: string;
+  scope?: string;
+  scp?: string | string[];
+};
+
+export type DecodedJwt = { header: Record<string, unknown>; claims: JwtClaims };
+
+function decodePart(part: string): Record<string, unknown> | null {
+  if (!/^[A-Za-z0-9_-]+={0,2}$/.test(part)) return null;
+  try {
+    const obj: unknown = JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+    return isPlainObject(obj) ? obj : null;
+  } catch {
+    return null;
+  }
+}
+
+export function decodeJwt(token: string): DecodedJwt | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  const header = decodePart(parts[0]);
+  const claims = decodePart(parts[1]);
+  return header && claims ? { header, claims: claims as JwtClaims } : null;
+}
+
+// Scopes from the "scope" (space-separated) or "scp" (list) claim
+export function jwtScopes(claims: JwtClaims): string[] {
+  if (typeof claims.scope === "string") return claims.scope.split(/\s+/).filter(Boolean);
+  if (Array.isArray(claims.scp)) return claims.scp.map(String);
+  if (typeof claims.scp === "string") return claims.scp.split(/\s+/).filter(Boolean);
+  return [];
+}
@@ -1,10 +1,14 @@
-import { cfg } from "./config";
+import { cfg, configDir } from "./config";
+import { activeContext } from "./contexts";
 import { join } from "node:path";
 import { promises as fs, readFileSync } from "node:fs";
+import { spawn } from "node:child_process";
+import { scrypt } from "node:crypto";
 import os from "node:os";
 import process from "node:process";
 import { Buffer } from "node:buffer";
 import { log } from "./log";
+import { Secret } from "./prompt";
 
 // Derive a stable machine-specific passphrase (used when cfg.keychainPassphrase is empty)
 function defaultKeychainPassphrase(): string {
@@ -25,95 +29,179 @@ function defaultKeychainPassphrase(): string {
   return `fp:${hostname}|${process.platform}|${process.arch}|${home}`;
 }
 
-interface Keychain {
+export interface Keychain {
   setSecret(service: string, account: string, password: string): Promise<void>;
   getSecret(service: string, account: string): Promise<string | null>;
   deleteSecret(service: string, account: string): Promise<boolean>;
 }
 
-// File-backed implementation
-class FileKeychain implements Keychain {
-  private u8ToB64(u8: Uint8Array): string {
-    return Buffer.from(u8).toString("base64");
-  }
-  private b64ToU8(b64: string): Uint8Array {
-    return new Uint8Array(Buffer.from(b64, "base64"));
-  }
-  private async deriveKey(pass: string, salt: Uint8Array, iterations = 150_000) {
-    const enc = new TextEncoder();
-    const keyMat = await crypto.subtle.importKey(
-      "raw",
-      enc.encode(pass),
-      { name: "PBKDF2" },
-      false,
-      ["deriveKey"],
-    );
-    return await crypto.subtle.deriveKey(
-      { name: "PBKDF2", salt: salt.buffer as ArrayBuffer, iterations, hash: "SHA-256" },
-      keyMat,
-      { name: "AES-GCM", length: 256 },
-      false,
-      ["encrypt", "decrypt"],
-    );
+/* ------------------------------ Envelope ------------------------------ */
+
+// Passphrase-derived AES-GCM envelope, serialized as JSON. Used for the keychain files and the
+// redaction vault.
+//   v1: {v: 1, kdf: {name: "PBKDF2", hash: "SHA-256", iterations, salt}, alg: "AES-GCM", iv, ct}
+//   v2: same layout; kdf is PBKDF2 (any iteration count) or {name: "scrypt", N, r, p, salt}
+// New envelopes are written as v2; v1 files stay readable.
+
+export type KdfParams =
+  | { name: "PBKDF2"; hash: "SHA-256"; iterations: number }
+  | { name: "scrypt"; N: number; r: number; p: number };
+
+export const DEFAULT_KDF: KdfParams = { name: "PBKDF2", hash: "SHA-256", iterations: 150_000 };
+// Stronger settings offered by `auth keychain rekey --kdf`
+export const PBKDF2_RECOMMENDED_ITERATIONS = 600_000;
+export const SCRYPT_DEFAULTS: KdfParams = { name: "scrypt", N: 2 ** 15, r: 8, p: 1 };
+
+const ENVELOPE_VERSION = 2;
+
+function u8ToB64(u8: Uint8Array): string {
+  return Buffer.from(u8).toString("base64");
+}
+function b64ToU8(b64: string): Uint8Array {
+  return new Uint8Array(Buffer.from(b64, "base64"));
+}
+
+function scryptBytes(pass: string, salt: Uint8Array, kdf: { N: number; r: number; p: number }) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const maxmem = 256 * kdf.N * kdf.r; // twice the minimum, so N=2^15 fits
+    scrypt(pass, salt, 32, { N: kdf.N, r: kdf.r, p: kdf.p, maxmem }, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+async function deriveKey(pass: string, salt: Uint8Array, kdf: KdfParams = DEFAULT_KDF) {
+  if (kdf.name === "scrypt") {
+    const raw = await scryptBytes(pass, salt, kdf);
+    return await crypto.subtle.importKey("raw", new Uint8Array(raw), { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
   }
+  const enc = new TextEncoder();
+  const keyMat = await crypto.subtle.importKey(
+    "raw",
+    enc.encode(pass),
+    { name: "PBKDF2" },
+    false,
+    ["deriveKey"],
+  );
+  return await crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: salt.buffer as ArrayBuffer, iterations: kdf.iterations, hash: "SHA-256" },
+    keyMat,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
 
-  // Resolve passphrase: use cfg.keychainPassphrase when non-empty; otherwise derive default.
-  private getPassphrase(): string {
-    const p = (cfg.keychainPassphrase ?? "").trim();
-    return p || defaultKeychainPassphrase();
-  }
-
-  // Always encrypt (no plaintext fallback)
-  private async encryptString(plaintext: string): Promise<string> {
-    const pass = this.getPassphrase();
-    const salt = crypto.getRandomValues(new Uint8Array(16));
-    const iv = crypto.getRandomValues(new Uint8Array(12));
-    const key = await this.deriveKey(pass, salt);
-    const enc = new TextEncoder();
-    const alg: AesGcmParams = { name: "AES-GCM", iv: iv.buffer as ArrayBuffer };
-    const ctBuf = await crypto.subtle.encrypt(alg, key, enc.encode(plaintext));
-    return JSON.stringify({
-      v: 1,
-      kdf: { name: "PBKDF2", hash: "SHA-256", iterations: 150000, salt: this.u8ToB64(salt) },
-      alg: "AES-GCM",
-      iv: this.u8ToB64(iv),
-      ct: this.u8ToB64(new Uint8Array(ctBuf)),
-    });
-  }
-
-  // Always decrypt an envelope (no legacy autodetect)
-  private async decryptString(data: string): Promise<string> {
-    const obj = JSON.parse(data);
-    if (!(obj && obj.ct && obj.iv && obj.kdf && obj.kdf.salt && obj.kdf.iterations)) {
-      throw new Error("Invalid keychain data format.");
-    }
-    const pass = this.getPassphrase();
-    const salt = this.b64ToU8(String(obj.kdf.salt));
-    const iv = this.b64ToU8(String(obj.iv));
-    const ct = this.b64ToU8(String(obj.ct));
-    const iters = Number(obj.kdf.iterations);
-    const key = await this.deriveKey(pass, salt, isFinite(iters) && iters > 0 ? iters : 150000);
-    const alg: AesGcmParams = { name: "AES-GCM", iv: iv.buffer as ArrayBuffer };
-    const ptBuf = await crypto.subtle.decrypt(alg, key, ct.buffer as ArrayBuffer);
-    return new TextDecoder().decode(new Uint8Array(ptBuf));
+// Resolve passphrase: use cfg.keychainPassphrase when non-empty; otherwise derive default.
+function getPassphrase(): string {
+  const p = (cfg.keychainPassphrase ?? "").trim();
+  return p || defaultKeychainPassphrase();
+}
+
+// The passphrase used when MJCTL_KEYCHAIN_PASSPHRASE is not set (for `rekey` after setting it)
+export function machinePassphrase(): string {
+  return defaultKeychainPassphrase();
+}
+
+type Envelope = { v: number; kdf: KdfParams & { salt: string }; iv: string; ct: string };
+
+function parseEnvelope(data: string): Envelope {
+  const obj = JSON.parse(data);
+  if (!(obj && obj.ct && obj.iv && obj.kdf && obj.kdf.salt)) {
+    throw new Error("Invalid keychain data format.");
+  }
+  const v = Number(obj.v ?? 1);
+  const k = obj.kdf;
+  if (v === 1 || (v === 2 && k.name === "PBKDF2")) {
+    const iters = Number(k.iterations);
+    if (!(isFinite(iters) && iters > 0)) throw new Error("Invalid keychain data format.");
+    return { v, kdf: { name: "PBKDF2", hash: "SHA-256", iterations: iters, salt: String(k.salt) }, iv: obj.iv, ct: obj.ct };
   }
+  if (v === 2 && k.name === "scrypt") {
+    const [N, r, p] = [Number(k.N), Number(k.r), Number(k.p)];
+    if (![N, r, p].every((n) => Number.isInteger(n) && n > 0)) throw new Error("Invalid keychain data format.");
+    return { v, kdf: { name: "scrypt", N, r, p, salt: String(k.salt) }, iv: obj.iv, ct: obj.ct };
+  }
+  throw new Error(`Unsupported keychain data (envelope v${v}, kdf ${String(k.name)}).`);
+}
+
+// Version and KDF settings of an envelope, e.g. to keep them when re-encrypting
+export function envelopeInfo(data: string): { v: number; kdf: KdfParams } {
+  const { v, kdf } = parseEnvelope(data);
+  const { salt: _salt, ...params } = kdf;
+  return { v, kdf: params as KdfParams };
+}
+
+// Always encrypt (no plaintext fallback)
+export async function encryptString(plaintext: string, pass = getPassphrase(), kdf = DEFAULT_KDF): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(pass, salt, kdf);
+  const enc = new TextEncoder();
+  const alg: AesGcmParams = { name: "AES-GCM", iv: iv.buffer as ArrayBuffer };
+  const ctBuf = await crypto.subtle.encrypt(alg, key, enc.encode(plaintext));
+  return JSON.stringify({
+    v: ENVELOPE_VERSION,
+    kdf: { ...kdf, salt: u8ToB64(salt) },
+    alg: "AES-GCM",
+    iv: u8ToB64(iv),
+    ct: u8ToB64(new Uint8Array(ctBuf)),
+  });
+}
+
+// Decrypt a v1 or v2 envelope
+export async function decryptString(data: string, pass = getPassphrase()): Promise<string> {
+  const env = parseEnvelope(data);
+  const salt = b64ToU8(env.kdf.salt);
+  const iv = b64ToU8(String(env.iv));
+  const ct = b64ToU8(String(env.ct));
+  const key = await deriveKey(pass, salt, env.kdf);
+  const alg: AesGcmParams = { name: "AES-GCM", iv: iv.buffer as ArrayBuffer };
+  const ptBuf = await crypto.subtle.decrypt(alg, key, ct.buffer as ArrayBuffer);
+  return new TextDecoder().decode(new Uint8Array(ptBuf));
+}
+
+/* ------------------------------ Backends ------------------------------ */
+
+// File-backed implementation: one encrypted envelope per account in the config dir
+class FileKeychain implements Keychain {
+  // File name suffix, so backends sharing this layout do not overwrite each other
+  protected suffix = "";
 
   private configDir() {
     const maybePath = (cfg as unknown as Record<string, unknown>)["keychainFilePath"];
-    if (typeof maybePath === "string" && maybePath) return maybePath;
-    const isWindows = process.platform === "win32";
-    if (isWindows) return process.env["APPDATA"] ?? process.env["USERPROFILE"] ?? ".";
-    return process.env["XDG_CONFIG_HOME"] ?? ((process.env["HOME"] ?? ".") + "/.config");
+    if (typeof maybePath === "string" && maybePath) return join(maybePath, cfg.appName);
+    return configDir();
   }
 
   private async fileFor(service: string, account: string) {
-    const base = await this.configDir();
-    const dir = join(base, cfg.appName);
-    const file = join(dir, `${service}_${account}.json`);
+    const dir = this.configDir();
+    const file = join(dir, `${service}_${account}${this.suffix}.json`);
     return { dir, file };
   }
 
-  async setSecret(service: string, account: string, password: string) {
+  async passphrase(): Promise<string> {
+    return getPassphrase();
+  }
+
+  // Undecryptable data is kept: after a passphrase change `auth keychain rekey` can still recover it
+  protected async onDecryptFailure(): Promise<string | null> {
+    log.error(
+      `Stored credentials could not be decrypted with the current passphrase. If you changed ${cfg.appName.toUpperCase()}_KEYCHAIN_PASSPHRASE, run '${cfg.appName} auth keychain rekey'; otherwise run '${cfg.appName} auth login' to sign in again.`,
+    );
+    return null;
+  }
+
+  // Raw envelope of an account, or null when there is none
+  async readEnvelope(service: string, account: string): Promise<string | null> {
+    const { file } = await this.fileFor(service, account);
+    try {
+      return await fs.readFile(file, { encoding: "utf8" });
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  async writeEnvelope(service: string, account: string, payload: string) {
     const { dir, file } = await this.fileFor(service, account);
     await fs.mkdir(dir, { recursive: true }).catch(() => {});
     try {
@@ -121,7 +209,6 @@ class FileKeychain implements Keychain {
     } catch { /* ignore chmod */ }
     const tmp = file + ".tmp";
 
-    const payload = await this.encryptString(password);
     await fs.writeFile(tmp, payload, { encoding: "utf8" });
 
     try {
@@ -133,26 +220,26 @@ class FileKeychain implements Keychain {
     } catch { /* ignore chmod */ }
   }
 
+  async setSecret(service: string, account: string, password: string) {
+    // Keep the KDF settings of the existing file, so token refreshes do not undo `rekey --kdf`
+    const existing = await this.readEnvelope(service, account).catch(() => null);
+    let kdf = DEFAULT_KDF;
+    try {
+      if (existing) kdf = envelopeInfo(existing).kdf;
+    } catch { /* unreadable: start over with the default */ }
+    await this.writeEnvelope(service, account, await encryptString(password, await this.passphrase(), kdf));
+  }
+
   async getSecret(service: string, account: string) {
-    const { file } = await this.fileFor(service, account);
+    const data = await this.readEnvelope(service, account);
+    if (data == null) return null;
     try {
-      const data = await fs.readFile(file, { encoding: "utf8" });
-      return await this.decryptString(data);
+      return await decryptString(data, await this.passphrase());
     } catch (e: unknown) {
-      // If file does not exist, return null; otherwise handle decryption errors explicitly
-      if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return null;
-
       const errName = e instanceof Error ? e.name : "";
       const msg = e instanceof Error ? e.message : String(e ?? "");
       if (errName === "OperationError" || msg.toLowerCase().includes("decryption failed")) {
-        log.error(
-          `Stored credentials could not be decrypted. The passphrase may have changed or the data is corrupted. Please run '${cfg.appName} auth login' to sign in again.`,
-        );
-        // Best-effort cleanup to avoid repeated failures
-        try {
-          await this.deleteSecret(service, account);
-        } catch { /* ignore cleanup failure */ }
-        return null;
+        return await this.onDecryptFailure();
       }
 
       throw e;
@@ -170,26 +257,252 @@ class FileKeychain implements Keychain {
   }
 }
 
-// Factory to choose implementation; only file backend is supported.
-function createKeychain(): Keychain {
-  return new FileKeychain();
+// Passphrase typed in by the user, kept in memory for the rest of this run
+let sessionPassphrase: string | undefined;
+
+// Same files as the file backend (with a ".prompt" suffix), but the passphrase is asked for once
+// per command run (it is never written anywhere) instead of being derived from the machine.
+// MJCTL_KEYCHAIN_PASSPHRASE skips the prompt, e.g. exported for the length of a shell session.
+class PromptKeychain extends FileKeychain {
+  protected override suffix = ".prompt";
+
+  override async passphrase(): Promise<string> {
+    const fromEnv = (cfg.keychainPassphrase ?? "").trim();
+    if (fromEnv) return fromEnv;
+    if (sessionPassphrase) return sessionPassphrase;
+    if (!process.stdin.isTTY) {
+      throw new Error(
+        `The prompt keychain needs an interactive terminal or ${cfg.appName.toUpperCase()}_KEYCHAIN_PASSPHRASE.`,
+      );
+    }
+    const pass = await Secret.prompt({ message: "Keychain passphrase:" });
+    if (!pass) throw new Error("No keychain passphrase entered.");
+    sessionPassphrase = pass;
+    return pass;
+  }
+
+  // A mistyped passphrase must not cost the user their tokens
+  protected override async onDecryptFailure(): Promise<string | null> {
+    sessionPassphrase = undefined;
+    throw new Error("Wrong keychain passphrase.");
+  }
 }
 
-// top-level await to select the keychain provider at module init
-const keychain: Keychain = createKeychain();
+type RunResult = { code: number; stdout: string; stderr: string };
+
+// Run a password-manager CLI, feeding secrets through stdin (never argv)
+function run(cmd: string, args: string[], input?: string): Promise<RunResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(cmd, args, { stdio: ["pipe", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (d: Buffer) => (stdout += d.toString("utf8")));
+    child.stderr.on("data", (d: Buffer) => (stderr += d.toString("utf8")));
+    child.on("error", (e: NodeJS.ErrnoException) =>
+      reject(e.code === "ENOENT" ? new Error(`'${cmd}' was not found in PATH.`) : e)
+    );
+    child.on("close", (code) => resolve({ code: code ?? 1, stdout, stderr }));
+    child.stdin.end(input ?? "");
+  });
+}
+
+function commandError(cmd: string, res: RunResult): Error {
+  return new Error(`${cmd} failed (exit ${res.code})${res.stderr.trim() ? `: ${res.stderr.trim()}` : ""}`);
+}
+
+// freedesktop Secret Service (GNOME Keyring, KWallet, KeePassXC) over D-Bus, via secret-tool
+class SecretServiceKeychain implements Keychain {
+  async setSecret(service: string, account: string, password: string) {
+    const res = await run(
+      "secret-tool",
+      ["store", `--label=${service} (${account})`, "service", service, "account", account],
+      password,
+    );
+    if (res.code !== 0) throw commandError("secret-tool store", res);
+  }
+
+  async getSecret(service: string, account: string) {
+    const res = await run("secret-tool", ["lookup", "service", service, "account", account]);
+    if (res.code === 0) return res.stdout;
+    if (!res.stderr.trim()) return null; // no such item
+    throw commandError("secret-tool lookup", res);
+  }
+
+  async deleteSecret(service: string, account: string) {
+    const res = await run("secret-tool", ["clear", "service", service, "account", account]);
+    return res.code === 0;
+  }
+}
+
+// The standard Unix password manager (pass), entries <service>/<account> encrypted with GPG
+class PassKeychain implements Keychain {
+  async setSecret(service: string, account: string, password: string) {
+    const res = await run("pass", ["insert", "--multiline", "--force", `${service}/${account}`], password);
+    if (res.code !== 0) throw commandError("pass insert", res);
+  }
+
+  async getSecret(service: string, account: string) {
+    const res = await run("pass", ["show", `${service}/${account}`]);
+    if (res.code === 0) return res.stdout.replace(/\n$/, "");
+    if (/is not in the password store/.test(res.stderr)) return null;
+    throw commandError("pass show", res);
+  }
+
+  async deleteSecret(service: string, account: string) {
+    const res = await run("pass", ["rm", "--force", `${service}/${account}`]);
+    return res.code === 0;
+  }
+}
+
+// Backend registry, selected with MJCTL_KEYCHAIN_BACKEND (default: file)
+const BACKENDS = {
+  file: () => new FileKeychain(),
+  prompt: () => new PromptKeychain(),
+  "secret-service": () => new SecretServiceKeychain(),
+  pass: () => new PassKeychain(),
+} satisfies Record<string, () => Keychain>;
+
+export type KeychainBackend = keyof typeof BACKENDS;
+export const KEYCHAIN_BACKENDS = Object.keys(BACKENDS) as KeychainBackend[];
+
+export function isKeychainBackend(name: string): name is KeychainBackend {
+  return Object.hasOwn(BACKENDS, name);
+}
+
+// The configured backend; an unknown name is an error rather than a silent fallback to files
+export function keychainBackend(): KeychainBackend {
+  const name = (cfg.keychainBackend || "file").trim();
+  if (!isKeychainBackend(name)) {
+    throw new Error(
+      `Unknown keychain backend "${name}" in ${cfg.appName.toUpperCase()}_KEYCHAIN_BACKEND. Use one of: ${KEYCHAIN_BACKENDS.join(", ")}`,
+    );
+  }
+  return name;
+}
+
+const instances = new Map<KeychainBackend, Keychain>();
+
+function keychainFor(backend: KeychainBackend = keychainBackend()): Keychain {
+  let k = instances.get(backend);
+  if (!k) {
+    k = BACKENDS[backend]();
+    instances.set(backend, k);
+  }
+  return k;
+}
+
+// A backend by name, or an instance (e.g. an in-memory keychain in tests)
+type KeychainRef = KeychainBackend | Keychain;
+
+// Move the token bundles of `accounts` to another backend. Each copy is read back before the
+// source is removed (kept with `keep`). Returns the accounts that had tokens.
+export async function migrateTokens(
+  from: KeychainRef,
+  to: KeychainRef,
+  accounts: string[],
+  opts: { keep?: boolean } = {},
+): Promise<string[]> {
+  const src = typeof from === "string" ? keychainFor(from) : from;
+  const dst = typeof to === "string" ? keychainFor(to) : to;
+  const label = (ref: KeychainRef, fallback: string) => (typeof ref === "string" ? ref : fallback);
+  const moved: string[] = [];
+  for (const account of accounts) {
+    const val = await src.getSecret(cfg.keychainService, account);
+    if (val == null) continue;
+    await dst.setSecret(cfg.keychainService, account, val);
+    if ((await dst.getSecret(cfg.keychainService, account)) !== val) {
+      throw new Error(
+        `Tokens for ${account} did not read back correctly from the ${label(to, "target")} backend; ${label(from, "the source")} was left as is.`,
+      );
+    }
+    if (!opts.keep) await src.deleteSecret(cfg.keychainService, account);
+    moved.push(account);
+  }
+  return moved;
+}
+
+// Backends that keep envelopes on disk (file, prompt); the others encrypt tokens themselves
+function envelopeKeychain(): FileKeychain {
+  const k = keychainFor();
+  if (!(k instanceof FileKeychain)) {
+    throw new Error(`The ${keychainBackend()} backend encrypts tokens itself; rekey applies to the file and prompt backends.`);
+  }
+  return k;
+}
+
+// Passphrase of the configured file/prompt backend (asks for it with the prompt backend)
+export async function keychainPassphrase(): Promise<string> {
+  return await envelopeKeychain().passphrase();
+}
+
+// Passphrase for redaction vaults: the one of the file/prompt backend (so the prompt backend asks
+// for it), or MJCTL_KEYCHAIN_PASSPHRASE / the machine default with backends that encrypt themselves.
+export async function vaultPassphrase(): Promise<string> {
+  const k = keychainFor();
+  return k instanceof FileKeychain ? await k.passphrase() : getPassphrase();
+}
+
+export type RekeyResult = { account: string; from: string; to: string }[];
+
+// Re-encrypt the token envelopes of `accounts` with `newPassphrase` and `kdf` (default: each file's
+// own settings). Old passphrases are tried in order; `askOld` may supply another one when none fit.
+// An account nobody can decrypt is left untouched and reported in `failed`.
+export async function rekeyTokens(
+  accounts: string[],
+  opts: {
+    oldPassphrases: string[];
+    newPassphrase: string;
+    kdf?: KdfParams;
+    askOld?: (account: string) => Promise<string | undefined>;
+  },
+): Promise<{ rekeyed: RekeyResult; failed: string[] }> {
+  const k = envelopeKeychain();
+  const candidates = [...new Set(opts.oldPassphrases.filter(Boolean))];
+  const describe = (kdf: KdfParams) =>
+    kdf.name === "scrypt" ? `scrypt N=${kdf.N} r=${kdf.r} p=${kdf.p}` : `PBKDF2 ${kdf.iterations} iterations`;
+  const rekeyed: RekeyResult = [];
+  const failed: string[] = [];
+
+  for (const account of accounts) {
+    const data = await k.readEnvelope(cfg.keychainService, account);
+    if (data == null) continue;
+    const info = envelopeInfo(data);
+    let plaintext: string | null = null;
+    for (const pass of candidates) {
+      plaintext = await decryptString(data, pass).catch(() => null);
+      if (plaintext != null) break;
+    }
+    while (plaintext == null && opts.askOld) {
+      const pass = await opts.askOld(account);
+      if (!pass) break;
+      plaintext = await decryptString(data, pass).catch(() => null);
+      if (plaintext != null) candidates.unshift(pass);
+      else log.warn("That passphrase does not decrypt it either.");
+    }
+    if (plaintext == null) {
+      failed.push(account);
+      continue;
+    }
+    const kdf = opts.kdf ?? info.kdf;
+    await k.writeEnvelope(cfg.keychainService, account, await encryptString(plaintext, opts.newPassphrase, kdf));
+    rekeyed.push({ account, from: `v${info.v}, ${describe(info.kdf)}`, to: `v${ENVELOPE_VERSION}, ${describe(kdf)}` });
+  }
+  return { rekeyed, failed };
+}
 
-// Exported helpers
-export async function saveTokens(data: unknown): Promise<void> {
+// Exported helpers. Tokens live under the account of the active context (see contexts.ts),
+// or of the given one.
+export async function saveTokens(data: unknown, account = activeContext().account): Promise<void> {
   const payload = JSON.stringify(data);
-  await keychain.setSecret(cfg.keychainService, cfg.keychainAccount, payload);
+  await keychainFor().setSecret(cfg.keychainService, account, payload);
 }
 
-export async function loadTokens<T = unknown>(): Promise<T | null> {
-  const val = await keychain.getSecret(cfg.keychainService, cfg.keychainAccount);
+export async function loadTokens<T = unknown>(account = activeContext().account): Promise<T | null> {
+  const val = await keychainFor().getSecret(cfg.keychainService, account);
   return val ? JSON.parse(val) as T : null;
 }
 
-export async function deleteTokens(): Promise<void> {
+export async function deleteTokens(account = activeContext().account): Promise<void> {
   log.info("Deleting tokens from keychain");
-  await keychain.deleteSecret(cfg.keychainService, cfg.keychainAccount);
+  await keychainFor().deleteSecret(cfg.keychainService, account);
 }
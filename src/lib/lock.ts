@@ -0,0 +1,110 @@
+// Cross-process advisory lock: a lock file created with O_EXCL holding the owner's pid, host and
+// start time. Used around token refresh so parallel invocations do not spend the same refresh token.
+// A lock is stale when it is older than `staleMs` or its owner (on this host) is no longer running;
+// the owner rewrites its start time while it holds the lock, so a slow holder does not go stale.
+
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import * as path from "node:path";
+import process from "node:process";
+
+export type LockOptions = {
+  timeoutMs?: number; // give up waiting after this long (default 45s)
+  staleMs?: number; // break locks older than this (default 60s)
+  pollMs?: number; // retry interval while waiting (default 100ms)
+};
+
+type LockInfo = { pid: number; host: string; at: number; id: string };
+
+export class LockTimeoutError extends Error {
+  constructor(file: string, owner?: LockInfo | null) {
+    super(`Timed out waiting for ${file}${owner ? ` (held by pid ${owner.pid} on ${owner.host})` : ""}.`);
+    this.name = "LockTimeoutError";
+  }
+}
+
+async function readLock(file: string): Promise<LockInfo | null> {
+  try {
+    const obj = JSON.parse(await fs.readFile(file, { encoding: "utf8" }));
+    return obj && typeof obj.pid === "number" && typeof obj.at === "number" ? obj as LockInfo : null;
+  } catch {
+    return null; // missing, or half-written by an owner that is just creating it
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0); // signal 0 only checks existence
+    return true;
+  } catch (e: unknown) {
+    return (e as NodeJS.ErrnoException)?.code === "EPERM";
+  }
+}
+
+function isStale(info: LockInfo, now: number, staleMs: number): boolean {
+  if (now - info.at > staleMs) return true;
+  return info.host === os.hostname() && info.pid !== process.pid && !isAlive(info.pid);
+}
+
+async function tryCreate(file: string, info: LockInfo): Promise<boolean> {
+  try {
+    await fs.writeFile(file, JSON.stringify(info), { encoding: "utf8", flag: "wx", mode: 0o600 });
+    return true;
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException)?.code === "EEXIST") return false;
+    throw e;
+  }
+}
+
+// Refresh `at` of a lock we still own
+async function touch(file: string, mine: LockInfo) {
+  const current = await readLock(file);
+  if (current?.id !== mine.id) return;
+  mine.at = Date.now();
+  await fs.writeFile(file, JSON.stringify(mine), { encoding: "utf8", mode: 0o600 });
+}
+
+// Run `fn` while holding the lock file; waits for other holders and breaks stale locks.
+export async function withFileLock<T>(file: string, fn: () => Promise<T>, opts: LockOptions = {}): Promise<T> {
+  const { timeoutMs = 45_000, staleMs = 60_000, pollMs = 100 } = opts;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const mine: LockInfo = { pid: process.pid, host: os.hostname(), at: Date.now(), id: crypto.randomUUID() };
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    mine.at = Date.now();
+    if (await tryCreate(file, mine)) break;
+
+    const owner = await readLock(file);
+    if (owner && isStale(owner, Date.now(), staleMs)) {
+      // Re-check right before removing, so a lock taken over in the meantime is left alone
+      const again = await readLock(file);
+      if (again?.id === owner.id) await fs.rm(file, { force: true });
+      continue;
+    }
+    if (!owner) {
+      // Unreadable: being written right now, or left empty by a crash
+      const st = await fs.stat(file).catch(() => null);
+      if (st && Date.now() - st.mtimeMs > staleMs) {
+        await fs.rm(file, { force: true });
+        continue;
+      }
+    }
+    if (Date.now() >= deadline) throw new LockTimeoutError(file, owner);
+    await new Promise((res) => setTimeout(res, pollMs + Math.floor(Math.random() * pollMs)));
+  }
+
+  let touching: Promise<void> = Promise.resolve();
+  const heartbeat = setInterval(() => {
+    touching = touching.then(() => touch(file, mine)).catch(() => {});
+  }, Math.max(Math.floor(staleMs / 3), 1));
+  heartbeat.unref();
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    await touching; // an in-flight rewrite must not re-create the file after it is removed
+    const current = await readLock(file);
+    if (current?.id === mine.id) await fs.rm(file, { force: true });
+  }
+}
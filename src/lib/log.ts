@@ -15,6 +15,15 @@ function color(s: string, code: number) {
   return COLOR_ENABLED ? `\x1b[${code}m${s}\x1b[0m` : s;
 }
 
+// Color helpers for callers that build their own lines (diffs, tables); honor NO_COLOR/TTY.
+export const paint = {
+  red: (s: string) => color(s, 31),
+  green: (s: string) => color(s, 32),
+  yellow: (s: string) => color(s, 33),
+  cyan: (s: string) => color(s, 36),
+  dim: (s: string) => color(s, 90),
+};
+
 function joinArgs(args: unknown[]) {
   return args.map((a) => {
     try {
@@ -69,7 +78,8 @@ export function formatError(err: unknown): string {
 }
 
 export const log = {
-  debug: (...args: unknown[]) => console.log(color(`·· ${joinArgs(args)}`, 90)), // dim
+  // stderr, like warnings and errors, so piped output (--json, `auth token`) stays clean
+  debug: (...args: unknown[]) => console.error(color(`·· ${joinArgs(args)}`, 90)), // dim
   info: (...args: unknown[]) => console.log(joinArgs(args)), // plain, no prefix/color
   warn: (...args: unknown[]) => console.warn(color(`⚠ ${joinArgs(args)}`, 33)), // yellow
   error: (...args: unknown[]) => console.error(color(`✖ ${joinArgs(args)}`, 31)), // red
@@ -0,0 +1,187 @@
+// Employer (org) and location (loc) detection for resume redaction.
+// Layers, strongest first: the user's own employer list, company legal suffixes ("Acme GmbH"),
+// "<Role> at <Company>" phrases in experience sections, and a bundled city gazetteer.
+// Each span carries a generalized replacement ("a bank", "a city in Germany") for the
+// "generalize" redaction mode.
+
+import { isDomain, parseEntries, searchTerms, termRegex } from "./blocklist";
+import { CITIES_BY_COUNTRY, US_STATE_CODES } from "./gazetteer";
+import type { Span } from "./pii";
+
+export type EmployerEntry = { name: string; generalized?: string };
+
+// Employer list file: one company or domain per line, optionally "= how to describe it",
+// e.g. "Acme Payments Inc = a Fortune 500 fintech company". # starts a comment.
+export function parseEmployerList(text: string): EmployerEntry[] {
+  const out: EmployerEntry[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const [name, desc] = line.replace(/#.*$/, "").split("=", 2);
+    const [entry] = parseEntries(name);
+    if (entry) out.push({ name: entry, generalized: desc?.trim() || undefined });
+  }
+  return out;
+}
+
+/* ------------------------------ Generalization ----------------------------- */
+
+const ORG_KINDS: Array<[RegExp, string]> = [
+  [/\b(universit|college|school|institute of technology|academy)/i, "a university"],
+  [/\b(bank|banco|banque|credit union)/i, "a bank"],
+  [/\b(insurance|assurance|versicherung)/i, "an insurance company"],
+  [/\b(hospital|clinic|health|pharma|medical)/i, "a healthcare company"],
+  [/\b(capital|ventures|partners|investments?|asset management)\b/i, "an investment firm"],
+  [/\b(consult|advisory|associates)/i, "a consulting firm"],
+  [/\b(pay|payments|fintech|finance|financial)/i, "a fintech company"],
+  [/\b(labs?|software|systems|technolog|digital|data|cloud|ai|tech|networks|solutions)\b/i, "a technology company"],
+  [/\b(agency|studio|media)\b/i, "an agency"],
+  [/\b(ministry|government|council|department of)\b/i, "a public sector organization"],
+];
+
+export function generalizeOrg(name: string): string {
+  return ORG_KINDS.find(([re]) => re.test(name))?.[1] ?? "a company";
+}
+
+/* ------------------------------- Detectors -------------------------------- */
+
+const LEGAL_SUFFIX =
+  "Inc|Incorporated|LLC|L\\.L\\.C|Ltd|Limited|Corp|Corporation|GmbH|AG|PLC|plc|S\\.A|SA|SAS|B\\.V|BV|N\\.V|NV|Oy|AB|S\\.r\\.l|Srl|Pty Ltd|LLP|KG|SE|Co";
+const NAME_WORD = "(?:\\p{Lu}[\\p{L}\\p{N}&'’-]*|\\p{N}+[\\p{L}\\p{N}]*)";
+const LINK_WORD = "(?:&|and|of|de|für|la)";
+
+// "Acme Widgets GmbH", "Globex, Inc.", "Stark Industries Ltd"
+const SUFFIX_RE = new RegExp(
+  `${NAME_WORD}(?:[ ](?:${NAME_WORD}|${LINK_WORD})){0,4},?[ ](?:${LEGAL_SUFFIX})\\.?(?![\\p{L}\\p{N}])`,
+  "gu",
+);
+
+// Company name after "at"/"@" (experience sections) or after employment verbs (anywhere)
+const COMPANY = `${NAME_WORD}(?:[ ](?:${NAME_WORD}|${LINK_WORD}(?=[ ]\\p{Lu}))){0,4}`;
+const AT_RE = new RegExp(`(?<![\\p{L}])(?:at|@)[ ]+(${COMPANY})`, "gu");
+// No "i" flag: with it \p{Lu} would also match lowercase letters
+const VERB_RE = new RegExp(
+  `(?<![\\p{L}])(?:[Ww]ork(?:ed|ing|s)? (?:at|for)|[Jj]oin(?:ed|ing|s)?|[Ee]mployed (?:at|by)|[Ii]ntern(?:ed|ship)? at)[ ]+(${COMPANY})`,
+  "gu",
+);
+
+// Capitalized words after "at" that are not companies
+const NOT_COMPANY = new Set([
+  "The", "A", "An", "All", "Least", "Most", "Scale", "Home", "Work", "Night", "Present", "Times", "First",
+  "Once", "Risk", "Large", "Speed", "Every", "Each", "Both", "Any", "This", "That", "Our", "My", "Their",
+  "Level", "Launch", "Startup", "Peak",
+]);
+
+const EXPERIENCE_HEADER = /^(?:#+\s*)?(?:work |professional |relevant )?(?:experience|employment(?: history)?|work history|career(?: history)?)\s*:?\s*$/i;
+const OTHER_HEADER =
+  /^(?:#+\s*)?(?:education|skills|technical skills|projects|certifications?|publications|languages|summary|profile|objective|interests|awards|references|volunteer(?:ing)?(?: experience)?|contact)\s*:?\s*$/i;
+
+// Character ranges of experience sections; the whole text when no section headers are found.
+function experienceRanges(text: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let pos = 0;
+  let open = -1;
+  let sawHeader = false;
+  for (const line of text.split("\n")) {
+    const t = line.trim();
+    if (EXPERIENCE_HEADER.test(t)) {
+      sawHeader = true;
+      if (open < 0) open = pos;
+    } else if (OTHER_HEADER.test(t)) {
+      sawHeader = true;
+      if (open >= 0) ranges.push([open, pos]);
+      open = -1;
+    }
+    pos += line.length + 1;
+  }
+  if (open >= 0) ranges.push([open, text.length]);
+  return sawHeader ? ranges : [[0, text.length]];
+}
+
+function trimCompany(s: string): string {
+  return s.replace(/(?:[ ](?:&|and|of|de|für|la))+$/u, "").replace(/[.,'’-]+$/u, "");
+}
+
+function orgSpan(start: number, value: string, source: Span["source"], rule: string, generalized?: string): Span {
+  return { start, end: start + value.length, value, kind: "org", source, rule, replacement: generalized ?? generalizeOrg(value) };
+}
+
+export function findEmployerSpans(text: string, employers: EmployerEntry[]): Span[] {
+  const out: Span[] = [];
+  for (const e of employers) {
+    const replacement = e.generalized ?? (isDomain(e.name) ? "a company" : generalizeOrg(e.name));
+    for (const term of searchTerms(e.name)) {
+      for (const m of text.matchAll(termRegex(term, "giu"))) {
+        out.push(orgSpan(m.index!, m[0], "list", `employers:${e.name}`, replacement));
+      }
+    }
+  }
+  return out;
+}
+
+export function findCompanySpans(text: string): Span[] {
+  const out: Span[] = [];
+  for (const m of text.matchAll(SUFFIX_RE)) out.push(orgSpan(m.index!, m[0], "heuristic", "heuristic:legal-suffix"));
+
+  const inExperience = experienceRanges(text);
+  const pushCompany = (m: RegExpMatchArray, rule: string) => {
+    const name = trimCompany(m[1]);
+    const first = name.split(" ")[0];
+    if (name.length < 2 || (NOT_COMPANY.has(first) && !(first === "The" && name.includes(" ")))) return;
+    const start = m.index! + m[0].length - m[1].length;
+    out.push(orgSpan(start, name, "heuristic", rule));
+  };
+  for (const m of text.matchAll(AT_RE)) {
+    if (inExperience.some(([a, b]) => m.index! >= a && m.index! < b)) pushCompany(m, "heuristic:at-company");
+  }
+  for (const m of text.matchAll(VERB_RE)) pushCompany(m, "heuristic:employment-verb");
+  return out;
+}
+
+const CITY_INDEX: Array<{ city: string; country: string }> = Object.entries(CITIES_BY_COUNTRY)
+  .flatMap(([country, cities]) => cities.map((city) => ({ city, country })))
+  .sort((a, b) => b.city.length - a.city.length);
+
+const CITY_RE = new RegExp(
+  `(?<![\\p{L}\\p{N}])(?:${CITY_INDEX.map((c) => c.city.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})(?![\\p{L}\\p{N}])`,
+  "gu",
+);
+const CITY_STATE_RE = /(?<![\p{L}])(\p{Lu}[\p{L}.'-]+(?:[ ]\p{Lu}[\p{L}.'-]+){0,2}),[ ]?([A-Z]{2})(?![\p{L}])/gu;
+
+export function findLocationSpans(text: string): Span[] {
+  const out: Span[] = [];
+  const countryOf = new Map(CITY_INDEX.map((c) => [c.city, c.country]));
+  for (const m of text.matchAll(CITY_RE)) {
+    const country = countryOf.get(m[0]) ?? "";
+    out.push({
+      start: m.index!, end: m.index! + m[0].length, value: m[0], kind: "loc", source: "gazetteer", rule: "gazetteer:city",
+      replacement: `a city in ${country}`,
+    });
+  }
+  for (const m of text.matchAll(CITY_STATE_RE)) {
+    if (!US_STATE_CODES.has(m[2])) continue;
+    out.push({
+      start: m.index!, end: m.index! + m[0].length, value: m[0], kind: "loc", source: "gazetteer", rule: "gazetteer:city-state",
+      replacement: "a city in the US",
+    });
+  }
+  return out;
+}
+
+// All org/loc spans without overlaps. Organizations first, longest match wins (so a listed
+// "Acme" inside "Acme Widgets GmbH" yields the full name, described as the list entry says);
+// places only where no organization was found.
+export function findOrgLocSpans(text: string, opts: { employers?: EmployerEntry[] } = {}): Span[] {
+  const listed = findEmployerSpans(text, opts.employers ?? []);
+  const byLength = (a: Span, b: Span) => (b.end - b.start) - (a.end - a.start) || a.start - b.start;
+  const overlaps = (a: Span, b: Span) => a.start < b.end && b.start < a.end;
+
+  const kept: Span[] = [];
+  for (const s of [...listed, ...findCompanySpans(text)].sort(byLength)) {
+    if (kept.some((k) => overlaps(k, s))) continue;
+    const inner = listed.find((l) => l.start >= s.start && l.end <= s.end);
+    kept.push(inner && s.source !== "list" ? { ...s, source: "list", rule: inner.rule, replacement: inner.replacement } : s);
+  }
+  for (const s of findLocationSpans(text).sort(byLength)) {
+    if (!kept.some((k) => overlaps(k, s))) kept.push(s);
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
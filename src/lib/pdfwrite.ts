@@ -0,0 +1,259 @@
+// Minimal PDF writer for redacted resumes.
+// Lays out styled lines with the standard Helvetica fonts (no embedding), wraps long lines and
+// draws redacted spans as filled boxes. The file is built from scratch: only the text passed in
+// ends up in content streams, and no metadata (Info dictionary, XMP) is written.
+
+import { Buffer } from "node:buffer";
+import { deflateSync } from "node:zlib";
+
+export type PdfRun =
+  | { kind: "text"; text: string }
+  | { kind: "box"; chars: number }; // black box about `chars` characters wide
+
+export type PdfBlock = {
+  runs: PdfRun[];
+  font: number; // pt
+  bold: boolean;
+  centered: boolean;
+  spaceBefore?: number; // pt
+  newPage?: boolean;
+};
+
+export type PdfPageOptions = { width?: number; height?: number; margin?: number };
+
+/* ------------------------------- Font metrics ------------------------------ */
+
+// Advance widths (1/1000 em) for WinAnsi codes 32..126, from the standard Adobe AFM files
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+const BOX_CHAR_WIDTH = 556;
+
+// Unicode → WinAnsiEncoding for the 0x80..0x9F range; Latin-1 maps to itself
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "ˆ": 0x88,
+  "‰": 0x89, "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e, "‘": 0x91, "’": 0x92, "“": 0x93,
+  "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "˜": 0x98, "™": 0x99, "š": 0x9a, "›": 0x9b,
+  "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+function winAnsi(s: string): number[] {
+  const out: number[] = [];
+  for (const ch of s) {
+    const cp = ch.codePointAt(0)!;
+    if (ch === "\t") out.push(32, 32, 32, 32);
+    else if (cp >= 32 && cp <= 126) out.push(cp);
+    else if (cp >= 160 && cp <= 255) out.push(cp);
+    else if (WIN_ANSI_EXTRA[ch]) out.push(WIN_ANSI_EXTRA[ch]);
+    else if (cp > 32) out.push(63); // "?"
+  }
+  return out;
+}
+
+function textWidth(codes: number[], bold: boolean, size: number) {
+  const table = bold ? HELVETICA_BOLD : HELVETICA;
+  let w = 0;
+  for (const c of codes) w += c >= 32 && c <= 126 ? table[c - 32] : DEFAULT_WIDTH;
+  return (w * size) / 1000;
+}
+
+function pdfString(codes: number[]) {
+  let s = "(";
+  for (const c of codes) {
+    if (c === 0x28 || c === 0x29 || c === 0x5c) s += "\\" + String.fromCharCode(c);
+    else if (c < 32 || c > 126) s += "\\" + c.toString(8).padStart(3, "0");
+    else s += String.fromCharCode(c);
+  }
+  return s + ")";
+}
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+/* --------------------------------- Layout ---------------------------------- */
+
+type Piece = { kind: "text"; codes: number[]; width: number; space: boolean } | { kind: "box"; width: number };
+
+// Split runs into words, spaces and boxes (boxes never break across lines).
+function piecesOf(block: PdfBlock): Piece[] {
+  const out: Piece[] = [];
+  for (const r of block.runs) {
+    if (r.kind === "box") {
+      out.push({ kind: "box", width: (r.chars * BOX_CHAR_WIDTH * block.font) / 1000 });
+      continue;
+    }
+    for (const tok of r.text.match(/\s+|\S+/g) ?? []) {
+      const codes = winAnsi(/^\s+$/.test(tok) ? tok.replace(/[^\t]/g, " ") : tok);
+      out.push({ kind: "text", codes, width: textWidth(codes, block.bold, block.font), space: /^\s/.test(tok) });
+    }
+  }
+  return out;
+}
+
+// Greedy line breaking; words wider than the line are split by character.
+function wrap(block: PdfBlock, maxWidth: number): Piece[][] {
+  const lines: Piece[][] = [];
+  let cur: Piece[] = [];
+  let width = 0;
+  const isSpace = (p?: Piece) => p?.kind === "text" && p.space;
+  const flush = () => {
+    while (isSpace(cur[cur.length - 1])) cur.pop();
+    lines.push(cur);
+    cur = [];
+    width = 0;
+  };
+
+  for (const p of piecesOf(block)) {
+    if (isSpace(p) && cur.length === 0) continue;
+    if (width + p.width <= maxWidth) {
+      cur.push(p);
+      width += p.width;
+      continue;
+    }
+    if (isSpace(p)) {
+      flush();
+      continue;
+    }
+    if (p.width > maxWidth && p.kind === "text") {
+      // Hard-split an overlong word
+      let chunk: number[] = [];
+      for (const c of p.codes) {
+        const w = textWidth([...chunk, c], block.bold, block.font);
+        if (width + w > maxWidth && (chunk.length || cur.length)) {
+          if (chunk.length) cur.push({ kind: "text", codes: chunk, width: textWidth(chunk, block.bold, block.font), space: false });
+          flush();
+          chunk = [];
+        }
+        chunk.push(c);
+      }
+      const w = textWidth(chunk, block.bold, block.font);
+      cur.push({ kind: "text", codes: chunk, width: w, space: false });
+      width += w;
+      continue;
+    }
+    flush();
+    cur.push(p);
+    width += Math.min(p.width, maxWidth);
+  }
+  if (cur.length || lines.length === 0) flush();
+  return lines;
+}
+
+/* --------------------------------- Writer ---------------------------------- */
+
+// Render blocks into a complete PDF file.
+export function renderPdf(blocks: PdfBlock[], opts: PdfPageOptions = {}): Buffer {
+  const pageW = opts.width ?? 612;
+  const pageH = opts.height ?? 792;
+  const margin = opts.margin ?? 54;
+  const maxWidth = pageW - 2 * margin;
+
+  const top = pageH - margin;
+  const pages: string[] = [];
+  let ops: string[] = [];
+  let y = top;
+  const newPage = () => {
+    pages.push(ops.join("\n"));
+    ops = [];
+    y = top;
+  };
+
+  for (const block of blocks) {
+    if (block.newPage && y < top) newPage();
+    const lineHeight = block.font * 1.25;
+    if (y < top) y -= block.spaceBefore ?? 0;
+
+    for (const line of wrap(block, maxWidth)) {
+      if (y - lineHeight < margin && y < top) newPage();
+      y -= lineHeight;
+      const lineWidth = line.reduce((s, p) => s + p.width, 0);
+      let x = block.centered ? Math.max(margin, (pageW - lineWidth) / 2) : margin;
+      const font = block.bold ? "/F2" : "/F1";
+
+      // Consecutive words are drawn as one text object; boxes split them
+      let run: number[] = [];
+      let runX = x;
+      const flushText = () => {
+        if (run.length) ops.push(`BT ${font} ${num(block.font)} Tf ${num(runX)} ${num(y)} Td ${pdfString(run)} Tj ET`);
+        run = [];
+      };
+      for (const p of line) {
+        if (p.kind === "box") {
+          flushText();
+          // Box covers the cap height plus descenders of the surrounding text
+          const w = Math.min(p.width, pageW - margin - x);
+          ops.push(`0 g ${num(x)} ${num(y - block.font * 0.22)} ${num(w)} ${num(block.font * 0.94)} re f`);
+        } else {
+          if (!run.length) runX = x;
+          run.push(...p.codes);
+        }
+        x += p.width;
+      }
+      flushText();
+    }
+  }
+  if (y < top || pages.length === 0) pages.push(ops.join("\n"));
+
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then a (page, content) pair per page
+  const objects: Array<string | Buffer> = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  pages.forEach((content, i) => {
+    const id = pageIds[i];
+    objects[id] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageW} ${pageH}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${id + 1} 0 R >>`;
+    const data = deflateSync(Buffer.from(content, "latin1"));
+    objects[id + 1] = Buffer.concat([
+      Buffer.from(`<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+      data,
+      Buffer.from("\nendstream", "latin1"),
+    ]);
+  });
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = offset;
+    const body = objects[id];
+    const chunk = Buffer.concat([
+      Buffer.from(`${id} 0 obj\n`, "latin1"),
+      typeof body === "string" ? Buffer.from(body, "latin1") : body,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    chunks.push(chunk);
+    offset += chunk.length;
+  }
+
+  const xref = [
+    "xref",
+    `0 ${objects.length}`,
+    "0000000000 65535 f ",
+    ...offsets.slice(1).map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length} /Root 1 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+    "",
+  ].join("\n");
+  chunks.push(Buffer.from(xref, "latin1"));
+  return Buffer.concat(chunks);
+}
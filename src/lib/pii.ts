@@ -1,31 +1,27 @@
 // src/pii/pii.ts
 // Local, deterministic PII redaction with an extra "layout-heading name detector" layer.
-// Dependencies: pdfjs-dist (pure JS). No native addons.
+// Text extraction (PDF, DOCX, Markdown, HTML, RTF) lives in ./extract.
 
-import * as path from "node:path";
 import { promises as fs } from "node:fs";
-// Lazy-load pdfjs so we only pay the cost when redacting PDFs.
-async function loadPdfJs(): Promise<PdfjsLike> {
-  // Resolve via package.json dependency (node_modules) to satisfy lint rules.
-  const mod = await import("pdfjs-dist");
-  return mod as unknown as PdfjsLike;
-}
-
-// Minimal PDF.js typings for the subset we use
-type PdfPage = {
-  getTextContent(): Promise<{ items: Array<{ str: string }> }>;
-  getViewport(opts: { scale: number }): { width: number };
-};
-type PdfDocument = {
-  numPages: number;
-  getPage(n: number): Promise<PdfPage>;
-};
-type PdfLoadingTask = { promise: Promise<PdfDocument> };
-type PdfjsLike = { getDocument: (src: { data: Uint8Array } | { url: string }) => PdfLoadingTask };
-
+import { basename } from "node:path";
+import type { DiffPath } from "./diff";
+import { stringLeaves } from "./diff";
+import type { LayoutLine } from "./extract";
+import { extractDocument } from "./extract";
+import { findIdentifierSpans } from "./identifiers";
+import type { EmployerEntry } from "./orgloc";
+import { findOrgLocSpans } from "./orgloc";
+import type { PdfBlock, PdfRun } from "./pdfwrite";
+import { renderPdf } from "./pdfwrite";
+import type { ReviewDecision, Reviewer } from "./review";
+import { applyDecisions, mergeDecisions, readDecisions } from "./review";
+import type { RedactionRules } from "./rules";
+import { dropAllowed, findRuleSpans } from "./rules";
+import type { VaultEntry } from "./vault";
+import { VAULT_SUFFIX, writeVault } from "./vault";
 /* ----------------------------- Types & Config ----------------------------- */
 
-export type RedactionMode = "hash" | "mask" | "drop";
+export type RedactionMode = "hash" | "mask" | "drop" | "generalize";
 export type Kind =
   | "email"
   | "phone"
@@ -42,10 +38,16 @@ export type Span = {
   end: number;
   value: string;
   kind: Kind;
-  source?: "regex" | "ner" | "flagger" | "layout";
+  source?: "regex" | "ner" | "flagger" | "layout" | "list" | "heuristic" | "gazetteer" | "manual" | "rules";
+  rule?: string; // what fired within the source, e.g. "regex:phone", "deny:JD", "pattern:employee-id"
   score?: number;
+  validator?: string; // identifier/phone validator that accepted the span, e.g. "luhn:visa", "e164"
+  country?: string; // region reported by the validator (phone numbers, national IDs, IBANs)
+  replacement?: string; // text for the "generalize" mode, e.g. "a bank" or "a city in Germany"
+  mode?: RedactionMode; // set by review; overrides the mode for the span's kind
 };
 export type RedactionConfig = Partial<Record<Kind, RedactionMode>>;
+export type OutputFormat = "txt" | "pdf";
 
 export interface LLMFlagger {
   name(): string;
@@ -58,7 +60,14 @@ export interface Options {
   useNER?: boolean; // kept for API parity; not used here
   flagger?: LLMFlagger | null; // optional extra safety net
   previewLimit?: number;
-  detectNameFromLayout?: boolean; // NEW: enable heading-based name detection (PDF only)
+  detectNameFromLayout?: boolean; // heading-based name detection (PDF, DOCX, Markdown, HTML, RTF)
+  format?: OutputFormat; // redacted output: plain text (default) or a rebuilt PDF
+  detectOrgLoc?: boolean; // employer and city detection (default on)
+  employers?: EmployerEntry[]; // the user's current/past employers, always redacted
+  review?: Reviewer; // interactive span review; decisions are stored in the report
+  rules?: RedactionRules; // user rules file: custom patterns, deny/allow lists, per-kind modes
+  rulesPath?: string; // where the rules came from, for the report
+  vault?: boolean; // keep an encrypted output→original map for `unredact` (txt output only)
 }
 
 export interface Result {
@@ -68,6 +77,10 @@ export interface Result {
   counts: Record<string, number>;
   outRedactedPath?: string;
   outReportPath?: string;
+  outVaultPath?: string;
+  flaggerError?: string; // set when the flagger failed and its results were skipped
+  decisions: ReviewDecision[]; // review decisions stored in the report
+  replayedDecisions: number; // decisions taken over from an earlier report for the same file
 }
 
 /* ------------------------------- Utilities -------------------------------- */
@@ -89,38 +102,13 @@ async function sha256Hex(s: string): Promise<string> {
   return [...new Uint8Array(buf)].map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
-async function makeTag(kind: Kind, value: string): Promise<string> {
+export async function makeTag(kind: Kind, value: string): Promise<string> {
   const h = (await sha256Hex(value)).slice(0, 8);
   return `[[${kind.toUpperCase()}:${h}]]`;
 }
 
-/* --------------------------- PDF text + layout ---------------------------- */
-
-type PdfItem = { str: string; transform: number[]; fontName?: string };
-type LayoutLine = {
-  text: string;
-  y: number;
-  x: number;
-  width: number;
-  maxFont: number;
-  avgFont: number;
-  centered: boolean;
-  bold: boolean;
-  tokenCount: number;
-  hasDigits: boolean;
-  hasEmailOrPhone: boolean;
-  score?: number;
-};
+/* ----------------------------- Layout heuristics ---------------------------- */
 
-function fontSizeFromTransform(t: number[]) {
-  const sx = Math.hypot(t[0], t[1]);
-  const sy = Math.hypot(t[2], t[3]);
-  return Math.max(sx, sy);
-}
-function isBoldFontName(name: string) {
-  const n = name?.toLowerCase?.() ?? "";
-  return n.includes("bold") || n.includes("semibold") || n.includes("demi") || n.includes("black");
-}
 function looksLikeHeader(s: string) {
   const h = s.trim().toLowerCase();
   const headers = [
@@ -141,86 +129,6 @@ function looksLikeHeader(s: string) {
   ];
   return headers.some((w) => h === w || h.startsWith(w + " "));
 }
-const emailRe = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/i;
-const phoneRe = /\+?[0-9][0-9()\s.-]{5,}/;
-
-async function pdfExtractWithLayout(pdfPath: string): Promise<{
-  text: string;
-  firstPageLines: LayoutLine[];
-  viewportWidth: number;
-}> {
-  // Read as Uint8Array
-  const data: Uint8Array = await fs.readFile(pdfPath);
-
-  // Pass Uint8Array to PDF.js (loaded on demand)
-  const pdfjs = await loadPdfJs();
-  const doc = await pdfjs.getDocument({ data }).promise;
-
-  // Build full text across pages (simple concat)
-  let fullText = "";
-  const numPages: number = doc.numPages;
-  for (let i = 1; i <= numPages; i++) {
-    const p = await doc.getPage(i);
-    const c = await p.getTextContent();
-    const items = (c.items || []) as Array<{ str: string }>;
-    fullText += items.map((it) => it.str).join(" ") + "\n";
-  }
-
-  // Only need page 1 layout lines for name detection
-  const page1 = await doc.getPage(1);
-  const viewport = page1.getViewport({ scale: 1.0 });
-  const content1 = await page1.getTextContent();
-  const items1 = (content1.items || []) as PdfItem[];
-
-  // Group first-page items into lines by baseline y
-  const byY: Record<
-    string,
-    { str: string; x: number; y: number; fs: number; fontName?: string }[]
-  > = {};
-  for (const it of items1) {
-    if (!it.str || !it.transform) continue;
-    const t = it.transform;
-    const y = t[5];
-    const x = t[4];
-    const fs = fontSizeFromTransform(t);
-    const ky = String(Math.round(y));
-    (byY[ky] ??= []).push({ str: it.str, x, y, fs, fontName: it.fontName });
-  }
-
-  const lines: LayoutLine[] = [];
-  const keys = Object.keys(byY).map(Number).sort((a, b) => b - a); // top->bottom (higher y first)
-  for (const ky of keys) {
-    const runs = byY[ky].sort((a, b) => a.x - b.x);
-    const text = runs.map((r) => r.str).join(" ").replace(/\s+/g, " ").trim();
-    if (!text) continue;
-    const maxFont = Math.max(...runs.map((r) => r.fs));
-    const avgFont = runs.reduce((s, r) => s + r.fs, 0) / runs.length;
-    const xMin = runs[0].x, xMax = runs[runs.length - 1].x;
-    const width = Math.max(0, xMax - xMin);
-    const pageCenter = viewport.width / 2;
-    const lineCenter = xMin + width / 2;
-    const centered = Math.abs(lineCenter - pageCenter) < viewport.width * 0.15;
-    const bold = runs.some((r) => (r.fontName && isBoldFontName(r.fontName)) || false);
-    const tokenCount = text.trim().split(/\s+/).filter(Boolean).length;
-    const hasDigits = /\d/.test(text);
-    const hasEmailOrPhone = emailRe.test(text) || phoneRe.test(text);
-    lines.push({
-      text,
-      y: ky,
-      x: xMin,
-      width,
-      maxFont,
-      avgFont,
-      centered,
-      bold,
-      tokenCount,
-      hasDigits,
-      hasEmailOrPhone,
-    });
-  }
-
-  return { text: fullText, firstPageLines: lines, viewportWidth: viewport.width };
-}
 
 function chooseNameCandidate(
   firstPageLines: LayoutLine[],
@@ -270,7 +178,6 @@ function locateCandidateInNormalized(
 
 const R = {
   email: /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi,
-  phone: /\+?[0-9]{1,3}[\s-]?\(?[0-9]{2,4}\)?[\s-]?[0-9]{3,4}\b/g,
   url: /\bhttps?:\/\/[^\s)]+/gi,
   linkedin: /\blinkedin\.com\/in\/[A-Za-z0-9._-]+/gi,
   github: /\bgithub\.com\/[A-Za-z0-9._-]+/gi,
@@ -278,7 +185,7 @@ const R = {
   id: /\b(?:SSN|SIN|NIN|PAN|AADHAAR)[:\s#-]?[A-Z0-9-]{4,}\b/gi,
 };
 
-function findRegexSpans(t: string): Span[] {
+export function findRegexSpans(t: string): Span[] {
   const out: Span[] = [];
   const scan = (kind: Kind, re: RegExp) => {
     for (const m of t.matchAll(re)) {
@@ -288,19 +195,74 @@ function findRegexSpans(t: string): Span[] {
         value: m[0],
         kind,
         source: "regex",
+        rule: `regex:${kind}`,
       });
     }
   };
   scan("email", R.email);
-  scan("phone", R.phone);
   scan("url", R.url);
   scan("linkedin", R.linkedin);
   scan("github", R.github);
   scan("address", R.address);
   scan("id", R.id);
+  // Phones and national IDs/cards/IBANs come from validating detectors instead of loose regexes
+  out.push(...findIdentifierSpans(t));
+  return out.sort((a, b) => a.start - b.start);
+}
+
+/* ------------------------------ Name layer -------------------------------- */
+
+// Names introduced by a label ("Name: Jane Doe", "My name is Jane Doe").
+const labeledNameRe =
+  /\b(?:[Ff]ull [Nn]ame|[Nn]ame|NAME|[Mm]y name is)\s*[:-]?\s*(\p{Lu}[\p{L}'-]+(?:[ \t]+(?:\p{Lu}\.|\p{Lu}[\p{L}'-]+)){1,2})/gu;
+
+// Known name variants (e.g. derived from the account email) matched as whole words.
+export function findNameSpans(t: string, names: string[] = []): Span[] {
+  const out: Span[] = [];
+  for (const m of t.matchAll(labeledNameRe)) {
+    const start = m.index! + m[0].length - m[1].length;
+    out.push({ start, end: start + m[1].length, value: m[1], kind: "name", source: "regex" });
+  }
+  for (const name of names) {
+    const pattern = name.trim().split(/\s+/).map(escapeRegex).join("\\s+");
+    if (!pattern) continue;
+    const re = new RegExp(`(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])`, "giu");
+    for (const m of t.matchAll(re)) {
+      out.push({ start: m.index!, end: m.index! + m[0].length, value: m[0], kind: "name", source: "regex" });
+    }
+  }
   return out.sort((a, b) => a.start - b.start);
 }
 
+// Name variants from an email local part: "jane.doe@…" → ["jane doe", "jane", "doe"].
+export function namesFromEmail(email: string | undefined): string[] {
+  const local = String(email ?? "").split("@")[0];
+  const parts = local.split(/[._\-+\d]+/).filter((p) => /^\p{L}{3,}$/u.test(p));
+  if (parts.length < 2) return [];
+  return [parts.join(" "), ...parts];
+}
+
+/* --------------------------- Structured documents ------------------------- */
+
+export type PiiFinding = { path: DiffPath; kind: Kind; value: string };
+
+// Run the regex and name detectors over every string field of a parsed YAML/JSON document.
+export function findPiiInDocument(doc: unknown, opts: { names?: string[] } = {}): PiiFinding[] {
+  const out: PiiFinding[] = [];
+  for (const leaf of stringLeaves(doc)) {
+    const text = normalizeText(leaf.value);
+    // Regex hits win over name hits (a name inside an email is part of the email); longer first
+    const byLength = (a: Span, b: Span) => (b.end - b.start) - (a.end - a.start);
+    const kept: Span[] = [];
+    for (const s of [...findRegexSpans(text).sort(byLength), ...findNameSpans(text, opts.names).sort(byLength)]) {
+      if (!kept.some((k) => s.start < k.end && k.start < s.end)) kept.push(s);
+    }
+    kept.sort((a, b) => a.start - b.start);
+    for (const s of kept) out.push({ path: leaf.path, kind: s.kind, value: s.value });
+  }
+  return out;
+}
+
 /* ---------------------------- Redaction engine ---------------------------- */
 
 const defaultModes: RedactionConfig = {
@@ -316,6 +278,15 @@ const defaultModes: RedactionConfig = {
   loc: "mask",
 };
 
+// A user rule overlapping a built-in span: the rule decides kind and mode, but the redaction covers
+// both, so a deny term inside an email does not leave the rest of the address readable.
+// `a` starts first (spans are merged in start order).
+function coverBoth(a: Span, b: Span): Span {
+  const rule = a.source === "rules" ? a : b;
+  const value = b.end > a.end ? a.value + b.value.slice(a.end - b.start) : a.value;
+  return { ...rule, start: a.start, end: Math.max(a.end, b.end), value };
+}
+
 function mergeAndDedupe(spans: Span[]): Span[] {
   spans.sort((a, b) => a.start - b.start || b.end - a.end);
   const out: Span[] = [];
@@ -327,35 +298,113 @@ function mergeAndDedupe(spans: Span[]): Span[] {
     }
     const topLen = top.end - top.start;
     const sLen = s.end - s.start;
-    const priorityMap: Record<string, number> = { regex: 3, flagger: 2, layout: 2, ner: 1 };
+    const priorityMap: Record<string, number> = { regex: 3, flagger: 2, layout: 2, list: 2, heuristic: 1, gazetteer: 1, ner: 1 };
     const priority = (src?: string) => priorityMap[src ?? ""] ?? 0;
-    const preferS = sLen < topLen || priority(s.source) > priority(top.source);
-    if (preferS) out[out.length - 1] = s;
+    // User rules outrank every built-in detector
+    const isRule = (x: Span) => x.source === "rules";
+    if (isRule(s) !== isRule(top)) {
+      out[out.length - 1] = coverBoth(top, s);
+      continue;
+    }
+    if (sLen < topLen || priority(s.source) > priority(top.source)) out[out.length - 1] = s;
   }
   return out;
 }
 
+function modeOf(s: Span, modes: RedactionConfig): RedactionMode {
+  return s.mode ?? modes[s.kind] ?? defaultModes[s.kind] ?? "hash";
+}
+
+// Replacement for the "generalize" mode; kinds without a detector-provided description get a placeholder.
+function generalized(s: Span): string {
+  return s.replacement ?? `[${s.kind}]`;
+}
+
 async function applyRedaction(
   text: string,
   spans: Span[],
   modes: RedactionConfig,
-): Promise<{ redacted: string }> {
+): Promise<{ redacted: string; entries: VaultEntry[] }> {
   let out = "";
   let last = 0;
+  const entries: VaultEntry[] = [];
   for (const s of spans) {
     out += text.slice(last, s.start);
-    const m = modes[s.kind] ?? defaultModes[s.kind] ?? "hash";
+    const m = modeOf(s, modes);
+    let piece = "";
     if (m === "drop") {
       // omit
     } else if (m === "mask") {
-      out += "*".repeat(s.end - s.start);
+      piece = "*".repeat(s.end - s.start);
+    } else if (m === "generalize") {
+      piece = generalized(s);
     } else {
-      out += await makeTag(s.kind, s.value);
+      piece = await makeTag(s.kind, s.value);
     }
+    entries.push({ kind: s.kind, mode: m, output: piece, at: out.length, original: s.value });
+    out += piece;
     last = s.end;
   }
   out += text.slice(last);
-  return { redacted: out };
+  return { redacted: out, entries };
+}
+
+// One PDF block per line of the normalized text, styled from the extracted layout when the
+// line structure survived normalization. Masked spans become boxes, hashed spans their tags;
+// the original characters of a span are never passed to the writer.
+async function buildPdfBlocks(
+  text: string,
+  spans: Span[],
+  modes: RedactionConfig,
+  styles: LayoutLine[],
+): Promise<PdfBlock[]> {
+  const rows = text.split("\n");
+  if (rows[rows.length - 1] === "") rows.pop();
+  const styled = styles.length === rows.length;
+  const bodyFont = 10.5;
+
+  const blocks: PdfBlock[] = [];
+  let start = 0;
+  let k = 0; // first span that may overlap the current line
+  let prev: LayoutLine | undefined;
+  for (const [i, row] of rows.entries()) {
+    const end = start + row.length;
+    const runs: PdfRun[] = [];
+    let pos = start;
+    while (k < spans.length && spans[k].end <= start) k++;
+    for (let j = k; j < spans.length && spans[j].start < end; j++) {
+      const s = spans[j];
+      const from = Math.max(s.start, start);
+      const to = Math.min(s.end, end);
+      if (from > pos) runs.push({ kind: "text", text: text.slice(pos, from) });
+      const m = modeOf(s, modes);
+      if (m === "mask") runs.push({ kind: "box", chars: to - from });
+      else if (m === "hash" && s.start >= start) runs.push({ kind: "text", text: await makeTag(s.kind, s.value) });
+      else if (m === "generalize" && s.start >= start) runs.push({ kind: "text", text: generalized(s) });
+      pos = Math.max(pos, to);
+    }
+    if (pos < end) runs.push({ kind: "text", text: text.slice(pos, end) });
+
+    const st = styled ? styles[i] : undefined;
+    const font = st ? Math.min(28, Math.max(7, st.maxFont)) : bodyFont;
+    let spaceBefore = font > bodyFont * 1.15 ? font * 0.5 : 0;
+    if (st?.page != null && prev?.page === st.page) {
+      // Keep visible paragraph gaps from the source page
+      const gap = prev.y - st.y - prev.maxFont * 1.3;
+      if (gap > font * 0.4) spaceBefore = Math.max(spaceBefore, Math.min(gap, font * 2));
+    }
+    blocks.push({
+      runs,
+      font,
+      bold: st?.bold ?? false,
+      centered: st?.centered ?? false,
+      spaceBefore,
+      newPage: st?.page != null && prev?.page != null && st.page !== prev.page,
+    });
+    prev = st;
+    start = end + 1;
+  }
+  return blocks;
 }
 
 /* ------------------------------- Main API -------------------------------- */
@@ -364,20 +413,12 @@ export async function redactResumeFile(filePath: string, opts: Options = {}): Pr
   const outBase = opts.outBase ?? filePath.replace(/\.[^.]+$/, "");
   const detectName = opts.detectNameFromLayout !== false; // default ON
 
-  const ext = path.extname(filePath).toLowerCase();
-
-  // 1) Extract text (PDF uses layout-aware fetch; TXT is direct)
-  let rawText = "";
+  // 1) Extract text plus first-page layout lines (format chosen by extension/signature)
+  const extracted = await extractDocument(filePath);
+  const rawText = extracted.text;
   let layoutCandidate: LayoutLine | null = null;
-  if (ext === ".pdf") {
-    const { text, firstPageLines, viewportWidth } = await pdfExtractWithLayout(filePath);
-    rawText = text;
-    if (detectName) {
-      layoutCandidate = chooseNameCandidate(firstPageLines, viewportWidth);
-    }
-  } else {
-  // ✅ Read using Node fs for UTF-8 string
-  rawText = await fs.readFile(filePath, { encoding: "utf8" });
+  if (detectName) {
+    layoutCandidate = chooseNameCandidate(extracted.firstPageLines, extracted.viewportWidth);
   }
 
   // 2) Normalize
@@ -386,7 +427,18 @@ export async function redactResumeFile(filePath: string, opts: Options = {}): Pr
   // 3) Regex layer
   let spans: Span[] = findRegexSpans(normalized);
 
-  // 4) NEW: Inject name span from layout (PDF heading) if we found a candidate
+  // 3a) User rules: custom patterns and deny-list terms
+  if (opts.rules) spans.push(...findRuleSpans(normalized, opts.rules));
+
+  // 3b) Employers and places; anything inside a regex hit (emails, URLs) is already covered
+  if (opts.detectOrgLoc !== false) {
+    const regexHits = [...spans];
+    for (const s of findOrgLocSpans(normalized, { employers: opts.employers })) {
+      if (!regexHits.some((r) => s.start < r.end && r.start < s.end)) spans.push(s);
+    }
+  }
+
+  // 4) Inject name span from the layout heading if we found a candidate
   if (layoutCandidate && layoutCandidate.text) {
     const loc = locateCandidateInNormalized(normalized, layoutCandidate.text);
     if (loc) {
@@ -396,12 +448,14 @@ export async function redactResumeFile(filePath: string, opts: Options = {}): Pr
         value: normalized.slice(loc.start, loc.end),
         kind: "name",
         source: "layout",
+        rule: "layout:heading",
         score: layoutCandidate.score,
       });
     }
   }
 
   // 5) Optional LLM flagger (e.g., Ollama) to add suspicious spans
+  let flaggerError: string | undefined;
   if (opts.flagger) {
     try {
       const flagged = await opts.flagger.flag(normalized);
@@ -415,37 +469,81 @@ export async function redactResumeFile(filePath: string, opts: Options = {}): Pr
             value: normalized.slice(start, end),
             kind: f.label,
             source: "flagger",
+            rule: `flagger:${opts.flagger.name()}`,
             score: f.score,
           });
         }
       }
-    } catch {
-      // fail-open; just skip flagger results
+    } catch (e: unknown) {
+      // fail-open; skip flagger results but let the caller know
+      flaggerError = e instanceof Error ? e.message : String(e);
     }
   }
 
-  // 6) Merge/dedupe and redact
+  // 6) Merge/dedupe, drop allow-listed terms, replay earlier review decisions for the same
+  //    file, optional review
   spans = mergeAndDedupe(spans);
-  const modes = { ...defaultModes, ...(opts.modes || {}) };
-  const { redacted } = await applyRedaction(normalized, spans, modes);
+  if (opts.rules) spans = dropAllowed(normalized, spans, opts.rules.allow);
+  const fileHashSha256 = await sha256Hex(rawText);
+  const outRedactedPath = `${outBase}.redacted.${opts.format === "pdf" ? "pdf" : "txt"}`;
+  const outReportPath = `${outBase}.pii.report.json`;
+
+  const previous = await readDecisions(outReportPath, fileHashSha256);
+  spans = applyDecisions(normalized, spans, previous);
+  let decisions = previous;
+  if (opts.review) {
+    const reviewed = await opts.review(normalized, spans);
+    spans = applyDecisions(normalized, spans, reviewed);
+    decisions = mergeDecisions(previous, reviewed);
+  }
+
+  const modes = { ...defaultModes, ...(opts.rules?.modes || {}), ...(opts.modes || {}) };
+  const { redacted, entries } = await applyRedaction(normalized, spans, modes);
 
   // 7) Outputs + report
   const counts: Record<string, number> = {};
   for (const s of spans) counts[s.kind] = (counts[s.kind] || 0) + 1;
 
-  const fileHashSha256 = await sha256Hex(rawText);
-  const outRedactedPath = `${outBase}.redacted.txt`;
-  const outReportPath = `${outBase}.pii.report.json`;
+  let outVaultPath: string | undefined;
+  if (opts.vault && opts.format !== "pdf") {
+    outVaultPath = `${outBase}${VAULT_SUFFIX}`;
+    await writeVault(outVaultPath, {
+      v: 1,
+      source: basename(filePath),
+      redactedSha256: await sha256Hex(redacted),
+      entries,
+    });
+  }
 
-  await fs.writeFile(outRedactedPath, redacted, { encoding: "utf8" });
+  if (opts.format === "pdf") {
+    const blocks = await buildPdfBlocks(normalized, spans, modes, extracted.lines);
+    await fs.writeFile(outRedactedPath, renderPdf(blocks));
+  } else {
+    await fs.writeFile(outRedactedPath, redacted, { encoding: "utf8" });
+  }
   await fs.writeFile(
     outReportPath,
     JSON.stringify(
       {
+        format: extracted.format,
+        flagger: opts.flagger ? { name: opts.flagger.name(), error: flaggerError ?? null } : null,
         counts,
         file_hash_sha256: fileHashSha256,
         modes,
+        vault: outVaultPath ?? null,
+        rules: opts.rules ? opts.rulesPath ?? "(inline)" : null,
         total_spans: spans.length,
+        spans: spans.map((s) => ({
+          start: s.start,
+          end: s.end,
+          kind: s.kind,
+          source: s.source,
+          rule: s.rule,
+          validator: s.validator,
+          score: s.score,
+          country: s.country,
+          mode: modeOf(s, modes),
+        })),
         layout_name_candidate: layoutCandidate
           ? {
             text: layoutCandidate.text,
@@ -457,6 +555,7 @@ export async function redactResumeFile(filePath: string, opts: Options = {}): Pr
           }
           : null,
         preview: spans.slice(0, opts.previewLimit ?? 12),
+        review: { decisions },
       },
       null,
       2,
@@ -471,5 +570,9 @@ export async function redactResumeFile(filePath: string, opts: Options = {}): Pr
     counts,
     outRedactedPath,
     outReportPath,
+    outVaultPath,
+    flaggerError,
+    decisions,
+    replayedDecisions: previous.length,
   };
 }
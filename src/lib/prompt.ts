@@ -21,6 +21,13 @@ export const Input = {
   },
 };
 
+// Like Input, but the typed text is not echoed
+export const Secret = {
+  async prompt(opts: { message: string }) {
+    return await ask<string>({ type: "password", name: "value", message: opts.message });
+  },
+};
+
 export const Confirm = {
   async prompt(opts: { message: string }) {
     return await ask<boolean>({ type: "confirm", name: "value", message: opts.message, initial: false });
@@ -38,3 +45,18 @@ export const Select = {
     return choice as T;
   },
 };
+
+export const MultiSelect = {
+  async prompt<T = unknown>(
+    opts: { message: string; options: Array<{ name: string; value: T; checked?: boolean }> },
+  ) {
+    const choice = await ask<T[]>({
+      type: "multiselect",
+      name: "value",
+      message: opts.message,
+      instructions: false,
+      choices: opts.options.map((o) => ({ title: o.name, value: o.value, selected: o.checked })),
+    });
+    return choice as T[] | undefined;
+  },
+};
@@ -0,0 +1,50 @@
+// Filtering and formatting for `proposals list` and friends.
+
+import type { Proposal, ProposalFilter } from "./api";
+import { paint } from "./log";
+
+export const STATUSES = ["new", "viewed", "accepted", "declined", "archived"];
+
+export type ListFilterOpts = { profile?: string; status?: string; since?: string; until?: string };
+
+export function fmtDate(s?: string) {
+  return (s || "-").split("T")[0];
+}
+
+export function fmtStatus(status?: string) {
+  const s = status || "-";
+  if (s === "new") return paint.green(s);
+  if (s === "accepted") return paint.cyan(s);
+  if (s === "declined" || s === "archived") return paint.dim(s);
+  return s;
+}
+
+export function headline(p: Proposal) {
+  return `${p.JobTitle || "(untitled job)"} @ ${p.Company || "(unknown company)"}`;
+}
+
+function validDate(s?: string) {
+  return !s || /^\d{4}-\d{2}-\d{2}$/.test(s);
+}
+
+// Turn the `proposals list` options into the server-side filter; throws on invalid values.
+export function proposalFilter(opts: ListFilterOpts): ProposalFilter {
+  if (opts.status && !STATUSES.includes(opts.status)) {
+    throw new Error(`--status must be one of: ${STATUSES.join(", ")}`);
+  }
+  if (!validDate(opts.since) || !validDate(opts.until)) {
+    throw new Error("--since/--until must be dates as YYYY-MM-DD.");
+  }
+  return { ProfileID: opts.profile, Status: opts.status, Since: opts.since, Until: opts.until };
+}
+
+// One line of the `proposals list` table (`i` is the zero-based position)
+export function proposalRow(p: Proposal, i: number): string {
+  return [
+    `${i + 1}. ${p.ProposalID || "-"}`,
+    `[${fmtStatus(p.Status)}]`,
+    headline(p),
+    `profile ${p.ProfileID || "-"}`,
+    fmtDate(p.Created),
+  ].join("  ");
+}
@@ -0,0 +1,43 @@
+// Local audit log of identity reveals (JSON lines in the config dir).
+// Only records which fields went to whom and when; the revealed values themselves are not stored.
+
+import * as path from "node:path";
+import { promises as fs } from "node:fs";
+import type { IdentityField } from "./api";
+import { configDir } from "./config";
+
+export type RevealLogEntry = {
+  at: string;
+  ProposalID: string;
+  ProfileID?: string;
+  Company?: string;
+  Recruiter?: string;
+  Fields: IdentityField[];
+};
+
+export function revealLogPath() {
+  return path.join(configDir(), "reveals.jsonl");
+}
+
+export async function appendRevealLog(entry: RevealLogEntry): Promise<void> {
+  const file = revealLogPath();
+  await fs.mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+  await fs.appendFile(file, JSON.stringify(entry) + "\n", { encoding: "utf8", mode: 0o600 });
+}
+
+export async function readRevealLog(): Promise<RevealLogEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(revealLogPath(), { encoding: "utf8" });
+  } catch {
+    return [];
+  }
+  const out: RevealLogEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      out.push(JSON.parse(line) as RevealLogEntry);
+    } catch { /* skip corrupt lines */ }
+  }
+  return out;
+}
@@ -0,0 +1,73 @@
+// Review decisions for redaction spans (`redact --review`).
+// Decisions are stored in the .pii.report.json next to the file hash; re-running on a file with
+// the same hash replays them. Spans are matched by their offsets and value in the normalized text.
+
+import { promises as fs } from "node:fs";
+import type { Kind, RedactionMode, Span } from "./pii";
+
+export type ReviewDecision = {
+  action: "accept" | "reject" | "add"; // add = redacted by hand
+  start: number;
+  end: number;
+  value: string;
+  kind: Kind; // kind after review
+  mode?: RedactionMode; // per-span override of the kind's mode
+};
+
+// Called with the normalized text and the detected spans (previous decisions already applied).
+export type Reviewer = (text: string, spans: Span[]) => Promise<ReviewDecision[]>;
+
+const keyOf = (d: { start: number; end: number }) => `${d.start}:${d.end}`;
+
+// Apply decisions to detected spans: rejected spans are dropped, accepted ones take the reviewed
+// kind/mode, hand-added ones replace whatever they overlap. Decisions whose text no longer matches are ignored.
+export function applyDecisions(text: string, spans: Span[], decisions: ReviewDecision[]): Span[] {
+  const valid = decisions.filter((d) => text.slice(d.start, d.end) === d.value);
+  const byKey = new Map(valid.filter((d) => d.action !== "add").map((d) => [keyOf(d), d]));
+  const added = valid.filter((d) => d.action === "add");
+
+  const out: Span[] = [];
+  for (const s of spans) {
+    if (added.some((a) => s.start < a.end && a.start < s.end)) continue;
+    const d = byKey.get(keyOf(s));
+    if (d?.value !== s.value) {
+      out.push(s);
+    } else if (d.action === "accept") {
+      out.push({ ...s, kind: d.kind, mode: d.mode });
+    }
+  }
+  for (const a of added) {
+    out.push({ start: a.start, end: a.end, value: a.value, kind: a.kind, source: "manual", rule: "review", mode: a.mode });
+  }
+  return out.sort((a, b) => a.start - b.start);
+}
+
+// Combine stored decisions with a new review round; the newer decision for a span wins.
+// Rejecting a span that was added by hand removes it; changing it keeps it a hand-added span.
+export function mergeDecisions(previous: ReviewDecision[], next: ReviewDecision[]): ReviewDecision[] {
+  const out = new Map(previous.map((d) => [keyOf(d), d]));
+  for (const d of next) {
+    const old = out.get(keyOf(d));
+    if (old?.action === "add" && old.value === d.value) {
+      if (d.action === "reject") out.delete(keyOf(d));
+      else out.set(keyOf(d), { ...d, action: "add" });
+    } else {
+      out.set(keyOf(d), d);
+    }
+  }
+  return [...out.values()].sort((a, b) => a.start - b.start);
+}
+
+// Decisions from an earlier report for the same source file; [] if there is none or the file changed.
+export async function readDecisions(reportPath: string, fileHashSha256: string): Promise<ReviewDecision[]> {
+  try {
+    const report = JSON.parse(await fs.readFile(reportPath, { encoding: "utf8" })) as {
+      file_hash_sha256?: string;
+      review?: { decisions?: ReviewDecision[] };
+    };
+    if (report.file_hash_sha256 !== fileHashSha256) return [];
+    return Array.isArray(report.review?.decisions) ? report.review.decisions : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,105 @@
+// User-defined redaction rules (~/.config/mjctl/redact.yaml or `redact --rules <file>`).
+//
+//   patterns:            # extra regexes, matched after the built-in ones
+//     - name: employee-id
+//       kind: id
+//       regex: "EMP-\\d{6}"
+//       flags: i         # optional: i, m, s, u
+//   deny:                # literal terms, always redacted as the given kind
+//     name: [Jenny Doe, JD]
+//     org: [Project Falcon, hammerdb]
+//   allow:               # terms never redacted, whichever detector flags them
+//     - GitHub Actions
+//   modes:               # per-kind redaction modes, on top of the defaults
+//     org: generalize
+//     phone: mask
+
+import { parse as parseYaml } from "yaml";
+import { isPlainObject } from "./diff";
+import { termRegex } from "./blocklist";
+import type { Kind, RedactionConfig, RedactionMode, Span } from "./pii";
+
+export type RedactionRules = {
+  patterns: Array<{ name: string; kind: Kind; regex: RegExp }>;
+  deny: Array<{ term: string; kind: Kind }>;
+  allow: string[];
+  modes: RedactionConfig;
+};
+
+export const KINDS: readonly Kind[] = ["name", "email", "phone", "url", "linkedin", "github", "address", "id", "org", "loc"];
+export const MODES: readonly RedactionMode[] = ["mask", "hash", "drop", "generalize"];
+
+const isKind = (v: unknown): v is Kind => KINDS.includes(v as Kind);
+const isMode = (v: unknown): v is RedactionMode => MODES.includes(v as RedactionMode);
+const strings = (v: unknown): string[] =>
+  (Array.isArray(v) ? v : [v]).filter((x) => typeof x === "string" || typeof x === "number").map(String)
+    .map((s) => s.trim()).filter(Boolean);
+
+// Parse and validate a rules document; errors name the offending entry.
+export function parseRules(yamlText: string): RedactionRules {
+  const doc: unknown = parseYaml(yamlText) ?? {};
+  if (!isPlainObject(doc)) throw new Error("expected a mapping with patterns, deny, allow and/or modes");
+  const rules: RedactionRules = { patterns: [], deny: [], allow: [], modes: {} };
+
+  const patterns = doc.patterns ?? [];
+  if (!Array.isArray(patterns)) throw new Error("patterns must be a list");
+  patterns.forEach((p: unknown, i) => {
+    const where = `patterns[${i}]`;
+    if (!isPlainObject(p)) throw new Error(`${where} must be a mapping with kind and regex`);
+    if (!isKind(p.kind)) throw new Error(`${where}.kind must be one of: ${KINDS.join(", ")}`);
+    if (typeof p.regex !== "string" || !p.regex) throw new Error(`${where}.regex must be a non-empty string`);
+    const flags = String(p.flags ?? "");
+    if (!/^[imsu]*$/.test(flags)) throw new Error(`${where}.flags may only contain i, m, s, u`);
+    let regex: RegExp;
+    try {
+      regex = new RegExp(p.regex, `g${flags}`);
+    } catch (e: unknown) {
+      throw new Error(`${where}.regex is invalid: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    rules.patterns.push({ name: typeof p.name === "string" && p.name ? p.name : `pattern-${i + 1}`, kind: p.kind, regex });
+  });
+
+  const deny = doc.deny ?? {};
+  if (!isPlainObject(deny)) throw new Error("deny must map kinds to lists of terms, e.g. deny: { name: [JD] }");
+  for (const [kind, terms] of Object.entries(deny)) {
+    if (!isKind(kind)) throw new Error(`deny.${kind}: unknown kind (use one of: ${KINDS.join(", ")})`);
+    for (const term of strings(terms)) rules.deny.push({ term, kind });
+  }
+
+  rules.allow = strings(doc.allow ?? []);
+
+  const modes = doc.modes ?? {};
+  if (!isPlainObject(modes)) throw new Error("modes must map kinds to modes, e.g. modes: { org: generalize }");
+  for (const [kind, mode] of Object.entries(modes)) {
+    if (!isKind(kind)) throw new Error(`modes.${kind}: unknown kind (use one of: ${KINDS.join(", ")})`);
+    if (!isMode(mode)) throw new Error(`modes.${kind} must be one of: ${MODES.join(", ")}`);
+    rules.modes[kind] = mode;
+  }
+  return rules;
+}
+
+// Spans for custom patterns and deny-list terms, tagged with the rule that fired.
+export function findRuleSpans(text: string, rules: RedactionRules): Span[] {
+  const out: Span[] = [];
+  for (const p of rules.patterns) {
+    for (const m of text.matchAll(p.regex)) {
+      if (!m[0]) continue;
+      out.push({ start: m.index!, end: m.index! + m[0].length, value: m[0], kind: p.kind, source: "rules", rule: `pattern:${p.name}` });
+    }
+  }
+  for (const d of rules.deny) {
+    for (const m of text.matchAll(termRegex(d.term, "giu"))) {
+      out.push({ start: m.index!, end: m.index! + m[0].length, value: m[0], kind: d.kind, source: "rules", rule: `deny:${d.term}` });
+    }
+  }
+  return out.sort((a, b) => a.start - b.start);
+}
+
+// Drop spans that fall inside an occurrence of an allow-listed term.
+export function dropAllowed(text: string, spans: Span[], allow: string[]): Span[] {
+  const ranges = allow.flatMap((term) =>
+    [...text.matchAll(termRegex(term, "giu"))].map((m) => [m.index!, m.index! + m[0].length] as const),
+  );
+  if (!ranges.length) return spans;
+  return spans.filter((s) => !ranges.some(([a, b]) => s.start >= a && s.end <= b));
+}
@@ -0,0 +1,275 @@
+// Profile YAML schema and validator.
+// A client-side description of the profile fields, used to lint drafts locally (and in CI) before
+// upload. It is maintained by hand; the server remains the authority and may accept or reject more.
+// Errors (which block save, push and edit) are kept for structure and types; enums, lengths,
+// formats and ranges are only guesses of the server's rules and are reported as warnings, unless
+// the field is `enforced` because its values come from the API types.
+// Issues carry YAML line/column positions from the source document.
+
+import { isMap, isSeq, LineCounter, parseDocument } from "yaml";
+import type { Node } from "yaml";
+import type { DiffPath } from "./diff";
+import { formatPath, isPlainObject } from "./diff";
+
+/* ----------------------------- Schema model ------------------------------ */
+
+type Common = { required?: boolean; readOnly?: boolean; enforced?: boolean; description?: string };
+
+export type FieldSpec =
+  | Common & { type: "string"; min?: number; max?: number; enum?: readonly string[]; pattern?: RegExp }
+  | Common & { type: "integer" | "number"; min?: number; max?: number }
+  | Common & { type: "boolean" }
+  | Common & { type: "date" } // YYYY-MM or YYYY-MM-DD
+  | Common & { type: "list"; items: FieldSpec; max?: number }
+  | Common & { type: "object"; fields: Record<string, FieldSpec> };
+
+export const CATEGORIES = [
+  "engineering",
+  "data",
+  "devops",
+  "security",
+  "qa",
+  "design",
+  "product",
+  "management",
+  "other",
+] as const;
+export const VISIBILITIES = ["private", "public"] as const;
+const SENIORITIES = ["junior", "mid", "senior", "lead", "principal"] as const;
+const LANGUAGE_LEVELS = ["basic", "conversational", "professional", "native"] as const;
+const COMPANY_SIZES = ["startup", "small", "medium", "large", "enterprise"] as const;
+const EMPLOYMENT_TYPES = ["full-time", "part-time", "contract", "freelance", "internship"] as const;
+const REMOTE_MODES = ["onsite", "hybrid", "remote"] as const;
+
+const shortText = (max = 100): FieldSpec => ({ type: "string", min: 1, max });
+
+export const profileSchema: Record<string, FieldSpec> = {
+  ProfileID: { type: "string", required: true, pattern: /^[A-Za-z0-9]+$/ },
+  Title: { type: "string", required: true, min: 3, max: 100 },
+  Category: { type: "string", enum: CATEGORIES },
+  Visibility: { type: "string", enum: VISIBILITIES, enforced: true }, // api.ProfileVisibility
+  Summary: { type: "string", max: 2000 },
+  Seniority: { type: "string", enum: SENIORITIES },
+  YearsOfExperience: { type: "integer", min: 0, max: 60 },
+  Skills: { type: "list", items: shortText(50), max: 50 },
+  Languages: {
+    type: "list",
+    max: 10,
+    items: {
+      type: "object",
+      fields: {
+        Language: { ...shortText(50), required: true },
+        Level: { type: "string", enum: LANGUAGE_LEVELS },
+      },
+    },
+  },
+  Experience: {
+    type: "list",
+    max: 30,
+    items: {
+      type: "object",
+      fields: {
+        Role: { ...shortText(100), required: true },
+        Industry: shortText(100),
+        CompanySize: { type: "string", enum: COMPANY_SIZES },
+        Start: { type: "date", required: true },
+        End: { type: "date" },
+        Description: { type: "string", max: 2000 },
+        Skills: { type: "list", items: shortText(50), max: 30 },
+      },
+    },
+  },
+  Education: {
+    type: "list",
+    max: 10,
+    items: {
+      type: "object",
+      fields: {
+        Degree: { ...shortText(100), required: true },
+        Field: shortText(100),
+        Year: { type: "integer", min: 1950, max: 2100 },
+      },
+    },
+  },
+  EmploymentTypes: { type: "list", items: { type: "string", enum: EMPLOYMENT_TYPES }, max: 5 },
+  Remote: { type: "string", enum: REMOTE_MODES },
+  Relocation: { type: "boolean" },
+  SalaryExpectation: {
+    type: "object",
+    fields: {
+      Min: { type: "number", min: 0 },
+      Max: { type: "number", min: 0 },
+      Currency: { type: "string", pattern: /^[A-Z]{3}$/ },
+      Period: { type: "string", enum: ["year", "month", "hour"] },
+    },
+  },
+  // Server-managed fields: accepted in downloaded drafts but ignored on upload
+  ShortUrl: { type: "string", readOnly: true },
+  Created: { type: "string", readOnly: true },
+  Updated: { type: "string", readOnly: true },
+  PausedUntil: { type: "string", readOnly: true },
+  ApprovalStatus: { type: "string", readOnly: true },
+  ModerationStatus: { type: "string", readOnly: true },
+  CountryCode: { type: "string", readOnly: true },
+  RegionID: { type: "string", readOnly: true },
+  CityID: { type: "string", readOnly: true },
+};
+
+/* ------------------------------- Validation ------------------------------- */
+
+export type Severity = "error" | "warning";
+
+export type SchemaIssue = {
+  path: DiffPath;
+  message: string;
+  severity: Severity;
+  line?: number; // 1-based
+  col?: number; // 1-based
+};
+
+const DATE_RE = /^\d{4}-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?$/;
+
+function typeName(v: unknown) {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "list";
+  if (isPlainObject(v)) return "map";
+  return typeof v;
+}
+
+function checkValue(spec: FieldSpec, v: unknown, path: DiffPath, out: SchemaIssue[]) {
+  const err = (message: string) => out.push({ path, message, severity: "error" });
+  const limit = (message: string) => out.push({ path, message, severity: spec.enforced ? "error" : "warning" });
+
+  if (v === null || v === undefined) {
+    if (spec.required) err("Value is required");
+    return;
+  }
+
+  switch (spec.type) {
+    case "string": {
+      // The YAML parser turns bare numbers into numbers; IDs and similar fields accept them
+      const s = typeof v === "number" && spec.readOnly ? String(v) : v;
+      if (typeof s !== "string") return err(`Expected a string, got ${typeName(v)}`);
+      if (spec.required && !s.trim()) return err("Value must not be empty");
+      if (spec.min != null && s.length < spec.min) limit(`Should be at least ${spec.min} characters`);
+      if (spec.max != null && s.length > spec.max) limit(`Should be at most ${spec.max} characters (got ${s.length})`);
+      if (spec.enum && !spec.enum.includes(s)) limit(`Should be one of: ${spec.enum.join(", ")}`);
+      if (spec.pattern && !spec.pattern.test(s)) limit(`Does not match the expected format ${spec.pattern}`);
+      return;
+    }
+    case "integer":
+    case "number": {
+      if (typeof v !== "number" || !isFinite(v)) return err(`Expected a number, got ${typeName(v)}`);
+      if (spec.type === "integer" && !Number.isInteger(v)) return err("Expected a whole number");
+      if (spec.min != null && v < spec.min) limit(`Should be ≥ ${spec.min}`);
+      if (spec.max != null && v > spec.max) limit(`Should be ≤ ${spec.max}`);
+      return;
+    }
+    case "boolean":
+      if (typeof v !== "boolean") err(`Expected true or false, got ${typeName(v)}`);
+      return;
+    case "date": {
+      // YAML may parse unquoted full dates as strings or Date objects depending on schema
+      const s = v instanceof Date ? v.toISOString().slice(0, 10) : v;
+      if (typeof s !== "string" || (!DATE_RE.test(s) && s !== "present")) {
+        limit('Expected a date as YYYY-MM or YYYY-MM-DD (or "present")');
+      }
+      return;
+    }
+    case "list": {
+      if (!Array.isArray(v)) return err(`Expected a list, got ${typeName(v)}`);
+      if (spec.max != null && v.length > spec.max) limit(`Should have at most ${spec.max} items (got ${v.length})`);
+      v.forEach((item, i) => checkValue(spec.items, item, [...path, i], out));
+      return;
+    }
+    case "object":
+      if (!isPlainObject(v)) return err(`Expected a map, got ${typeName(v)}`);
+      checkFields(spec.fields, v, path, out);
+      return;
+  }
+}
+
+function checkFields(
+  fields: Record<string, FieldSpec>,
+  obj: Record<string, unknown>,
+  path: DiffPath,
+  out: SchemaIssue[],
+) {
+  for (const [key, spec] of Object.entries(fields)) {
+    if (!(key in obj)) {
+      if (spec.required) out.push({ path, message: `Missing required field: ${key}`, severity: "error" });
+      continue;
+    }
+    checkValue(spec, obj[key], [...path, key], out);
+  }
+  for (const key of Object.keys(obj)) {
+    if (!(key in fields)) {
+      out.push({
+        path: [...path, key],
+        message: `Unknown field ${key}; the server will ignore it`,
+        severity: "warning",
+      });
+    }
+  }
+}
+
+// Validate an already parsed profile payload (no positions).
+export function validateProfilePayload(payload: unknown): SchemaIssue[] {
+  const out: SchemaIssue[] = [];
+  if (!isPlainObject(payload)) {
+    out.push({ path: [], message: "Profile must be a YAML map", severity: "error" });
+    return out;
+  }
+  checkFields(profileSchema, payload, [], out);
+  return out;
+}
+
+/* ---------------------------- Source positions ---------------------------- */
+
+// Find the node for a path; unknown keys resolve to the key node, missing ones to the parent.
+function nodeForPath(root: unknown, path: DiffPath): Node | null {
+  let node = root as Node | null;
+  for (const seg of path) {
+    if (isMap(node)) {
+      const pair = node.items.find((p) => (p.key as { value?: unknown } | null)?.value === seg);
+      if (!pair) return node;
+      node = (pair.value as Node | null) ?? (pair.key as Node);
+    } else if (isSeq(node) && typeof seg === "number") {
+      const item = node.items[seg] as Node | undefined;
+      if (!item) return node;
+      node = item;
+    } else {
+      return node;
+    }
+  }
+  return node;
+}
+
+// Parse and validate profile YAML text. Syntax errors are reported as issues as well.
+export function validateProfileYaml(text: string): { payload: unknown; issues: SchemaIssue[] } {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { lineCounter, prettyErrors: false });
+
+  if (doc.errors.length > 0) {
+    const issues = doc.errors.map((e) => {
+      const pos = lineCounter.linePos(e.pos[0]);
+      return { path: [], message: e.message.split("\n")[0], severity: "error" as const, ...pos };
+    });
+    return { payload: undefined, issues };
+  }
+
+  const payload: unknown = doc.toJS() ?? {};
+  const issues = validateProfilePayload(payload).map((issue) => {
+    const node = nodeForPath(doc.contents, issue.path);
+    if (!node?.range) return issue;
+    const pos = lineCounter.linePos(node.range[0]);
+    return { ...issue, ...pos };
+  });
+  return { payload, issues };
+}
+
+export function formatIssue(file: string, issue: SchemaIssue): string {
+  const loc = issue.line != null ? `${file}:${issue.line}:${issue.col ?? 1}` : file;
+  const where = issue.path.length ? ` (${formatPath(issue.path)})` : "";
+  return `${loc}: ${issue.severity}: ${issue.message}${where}`;
+}
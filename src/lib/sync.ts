@@ -0,0 +1,116 @@
+// Local bookkeeping for downloaded profile drafts.
+// Each draft ./profile-<ID>.yaml gets a hidden sidecar (.profile-<ID>.yaml.sync.json) holding the
+// server revision and YAML it was based on, so `save` can detect edits made elsewhere.
+
+import * as path from "node:path";
+import { promises as fs } from "node:fs";
+import process from "node:process";
+import { createHash, randomBytes } from "node:crypto";
+import type { Profile } from "./api";
+
+export type SyncState = {
+  ProfileID: string;
+  revision: string;
+  updated?: string;
+  fetchedAt: string;
+  yaml: string; // server YAML at download time (merge base)
+};
+
+export function sha256Hex(s: string): string {
+  return createHash("sha256").update(s, "utf8").digest("hex");
+}
+
+// Server revision: an explicit revision/ETag or update timestamp when the API provides one,
+// otherwise a hash of the server YAML.
+export function revisionOf(profile: Profile): string {
+  for (const key of ["Revision", "ETag", "Updated"]) {
+    const v = profile[key];
+    if (typeof v === "string" && v) return `${key.toLowerCase()}:${v}`;
+  }
+  return `sha256:${sha256Hex(String(profile.Yaml ?? ""))}`;
+}
+
+export function syncStatePath(file: string) {
+  return path.join(path.dirname(file), `.${path.basename(file)}.sync.json`);
+}
+
+export async function writePrivateFile(file: string, data: string) {
+  await fs.writeFile(file, data, { encoding: "utf8", mode: 0o600 });
+  try {
+    if (process.platform !== "win32") await fs.chmod(file, 0o600);
+  } catch { /* ignore chmod errors */ }
+}
+
+export async function readSyncState(file: string): Promise<SyncState | null> {
+  try {
+    const raw = await fs.readFile(syncStatePath(file), { encoding: "utf8" });
+    const obj = JSON.parse(raw) as SyncState;
+    return obj && typeof obj.revision === "string" ? obj : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeSyncState(file: string, profile: Profile): Promise<void> {
+  const state: SyncState = {
+    ProfileID: String(profile.ProfileID ?? ""),
+    revision: revisionOf(profile),
+    updated: typeof profile.Updated === "string" ? profile.Updated : undefined,
+    fetchedAt: new Date().toISOString(),
+    yaml: String(profile.Yaml ?? ""),
+  };
+  await writePrivateFile(syncStatePath(file), JSON.stringify(state, null, 2));
+}
+
+// Write the server YAML of a profile to a private local file and remember its revision.
+export async function writeProfileDraft(file: string, profile: Profile): Promise<void> {
+  await writePrivateFile(file, String(profile.Yaml ?? ""));
+  await writeSyncState(file, profile);
+}
+
+// Best-effort secure delete for temporary drafts: overwrite with random bytes, then unlink.
+export async function shredFile(file: string): Promise<void> {
+  try {
+    const { size } = await fs.stat(file);
+    const fh = await fs.open(file, "r+");
+    try {
+      await fh.write(randomBytes(size), 0, size, 0);
+      await fh.sync();
+    } finally {
+      await fh.close();
+    }
+  } catch { /* missing file or not writable: just try to remove it */ }
+  await fs.rm(file, { force: true });
+}
+
+/* ------------------------------ Workspace mode ----------------------------- */
+
+// A workspace is a directory of drafts (profile-<ID>.yaml) plus a manifest recording, per profile,
+// the content hash written at the last pull/push and the server revision it corresponds to.
+
+export const MANIFEST_FILE = ".mjctl-manifest.json";
+
+export type ManifestEntry = { file: string; sha256: string; revision: string; syncedAt: string };
+export type Manifest = { version: 1; profiles: Record<string, ManifestEntry> };
+
+export async function readManifest(dir: string): Promise<Manifest> {
+  try {
+    const raw = await fs.readFile(path.join(dir, MANIFEST_FILE), { encoding: "utf8" });
+    const obj = JSON.parse(raw) as Manifest;
+    if (obj && typeof obj.profiles === "object") return obj;
+  } catch { /* missing or unreadable manifest: start fresh */ }
+  return { version: 1, profiles: {} };
+}
+
+export async function writeManifest(dir: string, manifest: Manifest): Promise<void> {
+  await writePrivateFile(path.join(dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + "\n");
+}
+
+export function manifestEntry(file: string, content: string, profile: Profile): ManifestEntry {
+  return {
+    file: path.basename(file),
+    sha256: sha256Hex(content),
+    revision: revisionOf(profile),
+    syncedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,43 @@
+// Creating a profile from an uploaded resume and saving the server draft locally
+// (shared by `profiles create` and `redact --upload`).
+
+import * as path from "node:path";
+import { Buffer } from "node:buffer";
+import * as api from "./api";
+import type { Profile } from "./api";
+import { cfg } from "./config";
+import { log } from "./log";
+import { writeProfileDraft } from "./sync";
+
+export type ResumeUpload = { filename: string; content: string; encoding: "base64" };
+export type CreatePayload = { Title?: string; Resume?: ResumeUpload } & Record<string, unknown>;
+
+export function resumeUpload(filename: string, content: Buffer | string): ResumeUpload {
+  const bytes = typeof content === "string" ? Buffer.from(content, "utf8") : content;
+  return { filename, content: bytes.toString("base64"), encoding: "base64" };
+}
+
+// Create the profile on the server and write its YAML to `out` (default ./profile-<ID>.yaml).
+export async function createProfileDraft(payload: CreatePayload, out?: string): Promise<Profile | null> {
+  let profile: Profile;
+  try {
+    profile = await api.createProfile(payload);
+    log.info(`Created profile on server: ${profile.ProfileID || "(unknown)"}`);
+  } catch (e: unknown) {
+    log.error("Create profile failed:", e instanceof Error ? e.message : String(e));
+    return null;
+  }
+
+  const outFile = path.resolve(out || `./profile-${profile.ProfileID}.yaml`);
+  try {
+    await writeProfileDraft(outFile, profile);
+    log.info(`Saved created profile draft to ${outFile}`);
+  } catch (writeErr) {
+    log.error("Failed to save created profile locally:", writeErr);
+  }
+
+  log.info(
+    `Next steps: edit the file in your editor, then run: ${cfg.appName} profiles save <path>`,
+  );
+  return profile;
+}
@@ -0,0 +1,116 @@
+// Reversible redaction vault (`redact --vault`, `mjctl unredact`).
+// Maps what `redact` wrote for each span back to the original text, encrypted with the keychain
+// envelope and the keychain passphrase. The vault stays on this machine: it is a local file next
+// to the redacted output and no command uploads it.
+
+import { promises as fs } from "node:fs";
+import process from "node:process";
+import { cfg } from "./config";
+import { decryptString, encryptString, machinePassphrase, vaultPassphrase } from "./keychain";
+import type { Kind, RedactionMode } from "./pii";
+
+export type VaultEntry = {
+  kind: Kind;
+  mode: RedactionMode;
+  output: string; // what the redacted text contains instead, e.g. "[[EMAIL:1a2b3c4d]]" or "****"
+  at: number; // offset of `output` in the redacted text
+  original: string;
+};
+
+export type Vault = {
+  v: 1;
+  source: string; // redacted source file name (no directories)
+  redactedSha256: string; // positions are only trusted when the redacted text is unchanged
+  entries: VaultEntry[];
+};
+
+export type RestoreResult = {
+  text: string;
+  restored: number;
+  skipped: VaultEntry[]; // selected entries that could not be placed because the text was edited
+};
+
+export const VAULT_SUFFIX = ".vault.json";
+
+export function isVaultPath(p: string) {
+  return p.toLowerCase().endsWith(VAULT_SUFFIX);
+}
+
+export async function writeVault(file: string, vault: Vault): Promise<void> {
+  const tmp = file + ".tmp";
+  await fs.writeFile(tmp, await encryptString(JSON.stringify(vault), await vaultPassphrase()), { encoding: "utf8", mode: 0o600 });
+  try {
+    if (process.platform !== "win32") await fs.chmod(tmp, 0o600);
+  } catch { /* ignore chmod */ }
+  await fs.rename(tmp, file);
+}
+
+// `auth keychain rekey` only re-encrypts tokens, so a vault may still use a previous passphrase:
+// after the current one, try MJCTL_KEYCHAIN_OLD_PASSPHRASE and the machine default like rekey does.
+async function decryptVault(data: string): Promise<string | null> {
+  const candidates = [
+    await vaultPassphrase().catch(() => ""),
+    process.env[`${cfg.appName.toUpperCase()}_KEYCHAIN_OLD_PASSPHRASE`] ?? "",
+    machinePassphrase(),
+  ];
+  for (const pass of new Set(candidates.filter(Boolean))) {
+    const plain = await decryptString(data, pass).catch(() => null);
+    if (plain != null) return plain;
+  }
+  return null;
+}
+
+export async function readVault(file: string): Promise<Vault> {
+  const data = await fs.readFile(file, { encoding: "utf8" });
+  const plain = await decryptVault(data);
+  if (plain == null) {
+    const env = cfg.appName.toUpperCase();
+    throw new Error(
+      `Vault could not be decrypted. It is encrypted with the keychain passphrase (the one you type with the prompt backend, ${env}_KEYCHAIN_PASSPHRASE or this machine's default). If that changed since, pass the previous one in ${env}_KEYCHAIN_OLD_PASSPHRASE.`,
+    );
+  }
+  const vault = JSON.parse(plain) as Vault;
+  if (vault?.v !== 1 || !Array.isArray(vault.entries)) throw new Error("Unsupported vault format.");
+  return vault;
+}
+
+// Put originals back. Hash tags are unique per value and are replaced wherever they occur, so
+// they survive edits to the redacted text. Masked, dropped and generalized spans are restored by
+// position, which needs the redacted text exactly as `redact` wrote it (`textUnchanged`).
+export function restoreText(
+  text: string,
+  vault: Vault,
+  opts: { kinds?: Kind[]; textUnchanged: boolean },
+): RestoreResult {
+  const selected = vault.entries.filter((e) => !opts.kinds || opts.kinds.includes(e.kind));
+  const skipped: VaultEntry[] = [];
+  let restored = 0;
+
+  if (opts.textUnchanged) {
+    let out = "";
+    let last = 0;
+    for (const e of [...selected].sort((a, b) => a.at - b.at)) {
+      out += text.slice(last, e.at) + e.original;
+      last = e.at + e.output.length;
+      restored++;
+    }
+    return { text: out + text.slice(last), restored, skipped };
+  }
+
+  let out = text;
+  const byTag = new Map<string, string>();
+  for (const e of selected) {
+    if (e.mode === "hash") byTag.set(e.output, e.original);
+    else skipped.push(e);
+  }
+  for (const [tag, original] of byTag) {
+    const parts = out.split(tag);
+    if (parts.length > 1) {
+      restored += parts.length - 1;
+      out = parts.join(original);
+    } else {
+      for (const e of selected) if (e.output === tag) skipped.push(e);
+    }
+  }
+  return { text: out, restored, skipped };
+}
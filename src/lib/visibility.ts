@@ -0,0 +1,55 @@
+// Profile visibility lifecycle: parsing `profiles pause --until` and the status texts shown by
+// `profiles list`, publish, hide and pause.
+
+import type { Profile } from "./api";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Parse --until as a date (YYYY-MM-DD) or a duration from `now` (30d, 2w, 3m). Returns the
+// date as YYYY-MM-DD; throws when it is invalid or not in the future.
+export function parsePauseUntil(input: string, now: Date = new Date()): string {
+  const s = input.trim().toLowerCase();
+  let date: Date | null = null;
+
+  const duration = /^(\d{1,3})([dwm])$/.exec(s);
+  if (duration) {
+    const n = Number(duration[1]);
+    date = new Date(now.getTime());
+    if (duration[2] === "m") date.setUTCMonth(date.getUTCMonth() + n);
+    else date = new Date(now.getTime() + n * (duration[2] === "w" ? 7 : 1) * DAY_MS);
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(s)) {
+    date = new Date(`${s}T00:00:00Z`);
+    if (isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== s) date = null;
+  }
+
+  if (!date) {
+    throw new Error("--until must be a date as YYYY-MM-DD (e.g. 2026-12-01) or a duration such as 30d, 2w or 3m");
+  }
+  const day = date.toISOString().slice(0, 10);
+  if (day <= now.toISOString().slice(0, 10)) throw new Error("--until must be in the future.");
+  return day;
+}
+
+// Visibility column of `profiles list`
+export function visibilityLabel(p: Profile): string {
+  return p.PausedUntil
+    ? `${p.Visibility || "private"} (paused until ${p.PausedUntil.split("T")[0]})`
+    : p.Visibility || "-";
+}
+
+// Approval/moderation column of `profiles list`
+export function approvalLabel(p: Profile): string {
+  return [p.ApprovalStatus, p.ModerationStatus].filter(Boolean).join("/") || "-";
+}
+
+export function describeVisibility(p: Profile): string {
+  const state = p.PausedUntil
+    ? `hidden until ${p.PausedUntil.split("T")[0]}, then published again`
+    : p.Visibility === "public"
+    ? "published"
+    : "hidden";
+  const pending = p.Visibility === "public" && p.ApprovalStatus && p.ApprovalStatus !== "approved"
+    ? ` (approval ${p.ApprovalStatus}: visible to recruiters once approved)`
+    : "";
+  return `Profile ${p.ProfileID ?? ""} is ${state}${pending}.`;
+}
@@ -0,0 +1,58 @@
+// Comment-preserving edits of YAML drafts. Values are written through the parsed Document, so
+// comments, key order and the quoting style of untouched nodes survive a rewrite.
+
+import { isScalar, parseDocument, Scalar } from "yaml";
+import type { Document } from "yaml";
+import type { DiffPath } from "./diff";
+import { deepEqual, isPlainObject } from "./diff";
+
+export type YamlEdit = { path: DiffPath; value: unknown };
+
+function setNode(doc: Document, path: DiffPath, value: unknown, quote: boolean) {
+  const node = doc.getIn(path, true);
+  if (isScalar(node) && (value == null || typeof value !== "object")) {
+    // Keep the existing node so its comments stay attached
+    node.value = value;
+    if (quote && typeof value === "string" && (!node.type || node.type === Scalar.PLAIN)) {
+      node.type = Scalar.QUOTE_DOUBLE;
+    }
+    return;
+  }
+  const created = doc.createNode(value);
+  if (quote && isScalar(created) && typeof value === "string") created.type = Scalar.QUOTE_DOUBLE;
+  doc.setIn(path, created);
+}
+
+// Walk both values and touch only the nodes that differ. Lists of a different length are
+// replaced as a whole, since index-wise edits would shift the comments onto other items.
+function sync(doc: Document, path: DiffPath, from: unknown, to: unknown) {
+  if (deepEqual(from, to)) return;
+  if (isPlainObject(from) && isPlainObject(to)) {
+    for (const k of Object.keys(from)) if (!(k in to)) doc.deleteIn([...path, k]);
+    for (const [k, v] of Object.entries(to)) {
+      if (k in from) sync(doc, [...path, k], from[k], v);
+      else doc.setIn([...path, k], doc.createNode(v));
+    }
+    return;
+  }
+  if (Array.isArray(from) && Array.isArray(to) && from.length === to.length) {
+    to.forEach((v, i) => sync(doc, [...path, i], from[i], v));
+    return;
+  }
+  setNode(doc, path, to, false);
+}
+
+// Set the given leaves; with `quote`, new and plain string values are written double-quoted
+// (e.g. redaction tags like [[EMAIL:…]] that would otherwise read as a flow sequence).
+export function setYamlValues(text: string, edits: YamlEdit[], opts: { quote?: boolean } = {}): string {
+  const doc = parseDocument(text);
+  for (const e of edits) setNode(doc, e.path, e.value, !!opts.quote);
+  return doc.toString();
+}
+
+// Rewrite YAML text so that it parses to `next`, changing only what differs.
+export function updateYaml(text: string, next: unknown): string {
+  const doc = parseDocument(text);
+  sync(doc, [], doc.toJS(), next);
+  return doc.toString();
+}
@@ -3,11 +3,15 @@ import { Command } from "commander";
 import process from "node:process";
 import { authCommand } from "./commands/auth";
 import { profilesCommand } from "./commands/profiles";
+import { proposalsCommand } from "./commands/proposals";
 import { redactCommand } from "./commands/redact";
+import { unredactCommand } from "./commands/unredact";
 import { cfg } from "./lib/config";
+import { activeContextName, contextExists, selectContext } from "./lib/contexts";
 import { locationCommand } from "./commands/location";
 import { formatError, log } from "./lib/log";
 import { affiliateCommand } from "./commands/affiliate";
+import { blockCommand } from "./commands/block";
 
 // Capture any uncaught async errors
 process.on("unhandledRejection", (reason) => {
@@ -30,12 +34,26 @@ try {
   program
     .name(cfg.appName)
     .version(cfg.version)
-    .description(`${cfg.appName} CLI`);
+    .description(`${cfg.appName} CLI`)
+    .option("--context <name:string>", `Named context (API URL and tokens) for this command; see \`${cfg.appName} auth contexts\``)
+    .hook("preAction", (_program, action) => {
+      const name = action.optsWithGlobals<{ context?: string }>().context;
+      if (name) selectContext(name);
+      // Login creates contexts; listing and switching must work even when the selection is stale
+      const managesContexts = action.parent?.name() === "auth" && ["login", "contexts", "use"].includes(action.name());
+      const ctx = activeContextName();
+      if (!managesContexts && !contextExists(ctx)) {
+        throw new Error(`Unknown context "${ctx}". Create it with: ${cfg.appName} auth login --context ${ctx}`);
+      }
+    });
 
   program.addCommand(authCommand);
   program.addCommand(profilesCommand);
+  program.addCommand(proposalsCommand);
   program.addCommand(redactCommand);
+  program.addCommand(unredactCommand);
   program.addCommand(locationCommand);
+  program.addCommand(blockCommand);
   program.addCommand(affiliateCommand);
 
   program.parse([process.argv[0], process.argv[1], ...args]);
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { findBlockedMentions, normalizeEntry, parseEntries } from "../src/lib/blocklist";
+
+describe("blocklist", () => {
+  it("normalizes domains and parses bulk files", () => {
+    expect(normalizeEntry("https://www.Acme.com/careers")).toBe("acme.com");
+    expect(parseEntries("Acme Inc\n# comment\n\nacme.com  # main site\nAcme Inc\n")).toEqual([
+      "Acme Inc",
+      "acme.com",
+    ]);
+  });
+
+  it("finds mentions by full name, bare name and domain label", () => {
+    const profile = {
+      Summary: "Backend engineer at ACME, building payments.",
+      Experience: [{ Role: "Dev", Description: "Migrated initech systems" }],
+    };
+    const found = findBlockedMentions(profile, ["Acme Inc.", "initech.io", "Globex"]);
+    expect(found.map((m) => [m.entry, m.path.join("."), m.match])).toEqual([
+      ["Acme Inc.", "Summary", "ACME"],
+      ["initech.io", "Experience.0.Description", "initech"],
+    ]);
+  });
+
+  it("does not match inside other words", () => {
+    expect(findBlockedMentions({ Summary: "Acmeology fan" }, ["Acme"])).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { activeContextName, parseContexts, resolveContext, tokenAccount } from "../src/lib/contexts";
+import { cfg } from "../src/lib/config";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("contexts", () => {
+  it("drops invalid entries from contexts.json", () => {
+    const file = parseContexts(JSON.stringify({
+      current: "staging",
+      contexts: { staging: { apiBase: "https://staging.example.com" }, "bad name": { apiBase: "x" }, empty: {} },
+    }));
+    expect(file).toEqual({ current: "staging", contexts: { staging: { apiBase: "https://staging.example.com" } } });
+    expect(parseContexts("[]")).toEqual({ contexts: {} });
+    expect(parseContexts(JSON.stringify({ current: "../x", contexts: {} }))).toEqual({ contexts: {} });
+  });
+
+  it("keeps the original keychain account for the default context", () => {
+    expect(tokenAccount("default")).toBe(cfg.keychainAccount);
+    expect(tokenAccount("staging")).toBe(`${cfg.keychainAccount}@staging`);
+  });
+
+  it("resolves saved and default contexts, unknown ones only on request", () => {
+    const file = { contexts: { staging: { apiBase: "https://staging.example.com" } } };
+    expect(resolveContext(file, "staging")).toEqual({
+      name: "staging",
+      apiBase: "https://staging.example.com",
+      account: `${cfg.keychainAccount}@staging`,
+    });
+    expect(resolveContext(file, "default")?.apiBase).toBe(cfg.apiBase);
+    expect(resolveContext(file, "test")).toBeNull();
+    expect(resolveContext(file, "test", true)?.apiBase).toBe(cfg.apiBase);
+  });
+
+  it("validates MJCTL_CONTEXT like --context", () => {
+    vi.stubEnv(`${cfg.appName.toUpperCase()}_CONTEXT`, "staging");
+    expect(activeContextName()).toBe("staging");
+    vi.stubEnv(`${cfg.appName.toUpperCase()}_CONTEXT`, "../x");
+    expect(() => activeContextName()).toThrow('Invalid context name "../x"');
+  });
+});
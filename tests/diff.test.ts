@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { diffValues, formatPath, mergeValues } from "../src/lib/diff";
+
+describe("diffValues", () => {
+  it("reports added, removed and changed keys", () => {
+    const changes = diffValues(
+      { Title: "Dev", Category: "engineering", Summary: "old" },
+      { Title: "Senior Dev", Summary: "old", Skills: ["Go"] },
+    );
+    expect(changes).toEqual([
+      { op: "change", path: ["Title"], from: "Dev", to: "Senior Dev" },
+      { op: "remove", path: ["Category"], value: "engineering" },
+      { op: "add", path: ["Skills"], value: ["Go"] },
+    ]);
+  });
+
+  it("detects moved list items and edits inside list entries", () => {
+    const changes = diffValues(
+      { Skills: ["Go", "Rust", "TypeScript"], Experience: [{ Role: "Dev", Years: 2 }] },
+      { Skills: ["TypeScript", "Go", "Rust"], Experience: [{ Role: "Lead", Years: 2 }] },
+    );
+    expect(changes).toEqual([
+      { op: "move", path: ["Skills", 0], from: 2, to: 0, value: "TypeScript" },
+      { op: "change", path: ["Experience", 0, "Role"], from: "Dev", to: "Lead" },
+    ]);
+  });
+
+  it("ignores key order", () => {
+    expect(diffValues({ a: 1, b: { c: 2, d: 3 } }, { b: { d: 3, c: 2 }, a: 1 })).toEqual([]);
+  });
+});
+
+describe("formatPath", () => {
+  it("joins keys and indices", () => {
+    expect(formatPath(["Experience", 2, "Title"])).toBe("Experience[2].Title");
+    expect(formatPath(["weird key"])).toBe('["weird key"]');
+  });
+});
+
+describe("mergeValues", () => {
+  it("combines non-overlapping edits and reports conflicts", () => {
+    const base = { Title: "Dev", Summary: "a", Skills: ["Go", "Rust"] };
+    const local = { Title: "Senior Dev", Summary: "b", Skills: ["Go", "Rust", "TypeScript"] };
+    const server = { Title: "Dev", Summary: "c", Skills: ["Go", "Zig"] };
+    const { merged, conflicts } = mergeValues(base, local, server);
+    expect(merged).toEqual({ Title: "Senior Dev", Summary: "b", Skills: ["Go", "TypeScript", "Zig"] });
+    expect(conflicts).toEqual([{ path: ["Summary"], base: "a", local: "b", server: "c" }]);
+  });
+});
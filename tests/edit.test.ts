@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { chmodSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import * as path from "node:path";
+import * as api from "../src/lib/api";
+import { Confirm } from "../src/lib/prompt";
+import { profilesCommand } from "../src/commands/profiles";
+
+const SERVER_YAML = "ProfileID: e1\nTitle: Backend Developer\nSkills:\n  - Go\n";
+
+vi.mock("../src/lib/api", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("../src/lib/api")>();
+  return {
+    ...mod,
+    getProfile: vi.fn(async () => new mod.Profile({ ProfileID: "e1", Yaml: SERVER_YAML, Updated: "2026-10-01" })),
+    updateProfile: vi.fn(async (id: string) => new mod.Profile({ ProfileID: id })),
+    listBlockedEmployers: vi.fn(async () => []),
+  };
+});
+
+vi.mock("../src/lib/prompt", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("../src/lib/prompt")>();
+  return { ...mod, Confirm: { prompt: vi.fn() } };
+});
+
+const dir = mkdtempSync(path.join(os.tmpdir(), "mjctl-edit-"));
+const state = path.join(dir, "state");
+
+// Stub editor (in a directory with a space): the n-th run saves what it was shown as seen-<n>.yaml
+// and replaces the draft with edit-<n>.yaml
+const editor = path.join(dir, "my editor", "edit.sh");
+mkdirSync(path.dirname(editor));
+writeFileSync(editor, [
+  "#!/bin/sh",
+  'n=$(($(cat "$EDIT_STATE/count" 2>/dev/null || echo 0) + 1))',
+  'echo "$n" > "$EDIT_STATE/count"',
+  'echo "$1" > "$EDIT_STATE/path"',
+  'cp "$1" "$EDIT_STATE/seen-$n.yaml"',
+  'cp "$EDIT_STATE/edit-$n.yaml" "$1"',
+  "",
+].join("\n"));
+chmodSync(editor, 0o755);
+
+vi.stubEnv("XDG_CONFIG_HOME", path.join(dir, "config"));
+vi.stubEnv("VISUAL", "");
+vi.stubEnv("EDITOR", `"${editor}"`);
+vi.stubEnv("EDIT_STATE", state);
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  rmSync(state, { recursive: true, force: true });
+  mkdirSync(state);
+  vi.mocked(api.updateProfile).mockClear();
+  vi.mocked(Confirm.prompt).mockReset();
+});
+
+// Queue the editor's successive versions of the draft
+function edits(...versions: string[]) {
+  versions.forEach((v, i) => writeFileSync(path.join(state, `edit-${i + 1}.yaml`), v));
+}
+const seen = (n: number) => readFileSync(path.join(state, `seen-${n}.yaml`), "utf8");
+
+function expectTempFilesRemoved() {
+  const draft = readFileSync(path.join(state, "path"), "utf8").trim();
+  expect(existsSync(draft)).toBe(false);
+  expect(existsSync(path.dirname(draft))).toBe(false);
+}
+
+const edit = () => profilesCommand.parseAsync(["edit", "e1"], { from: "user" });
+
+describe("profiles edit", () => {
+  it("re-opens the editor with the errors as comments until the draft is valid", async () => {
+    edits(
+      "ProfileID: e1\nTitle: Backend Developer\nSkills: Go\n",
+      "ProfileID: e1\nTitle: Senior Backend Developer\nSkills:\n  - Go\n",
+    );
+    vi.mocked(Confirm.prompt).mockResolvedValue(true);
+
+    await edit();
+
+    expect(seen(1)).toBe(SERVER_YAML);
+    expect(seen(2)).toContain("# mjctl: error: Expected a list, got string (Skills)\nSkills: Go");
+    expect(vi.mocked(Confirm.prompt).mock.calls.map(([o]) => o.message)).toEqual([
+      "Validation failed. Re-open the editor to fix it?",
+      "Upload 1 change(s) to profile e1?",
+    ]);
+    expect(api.updateProfile).toHaveBeenCalledWith("e1", {
+      ProfileID: "e1",
+      Title: "Senior Backend Developer",
+      Skills: ["Go"],
+    });
+    expectTempFilesRemoved();
+  });
+
+  it("uploads nothing when the diff is not confirmed", async () => {
+    edits("ProfileID: e1\nTitle: Staff Developer\nSkills:\n  - Go\n");
+    vi.mocked(Confirm.prompt).mockResolvedValue(false);
+
+    await edit();
+
+    expect(Confirm.prompt).toHaveBeenCalledTimes(1);
+    expect(api.updateProfile).not.toHaveBeenCalled();
+    expectTempFilesRemoved();
+  });
+
+  it("stops without asking when nothing changed", async () => {
+    edits(SERVER_YAML);
+
+    await edit();
+
+    expect(Confirm.prompt).not.toHaveBeenCalled();
+    expect(api.updateProfile).not.toHaveBeenCalled();
+    expectTempFilesRemoved();
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { fileURLToPath, URL } from "node:url";
+import { evaluateCorpus, parseGold, scoreSpans } from "../src/lib/evaluate";
+import type { Span } from "../src/lib/pii";
+
+const CORPUS = fileURLToPath(new URL("./fixtures/redact", import.meta.url));
+
+describe("gold annotations", () => {
+  it("parses counts and files without PII", () => {
+    const gold = parseGold('{"file":"a.txt","kind":"loc","text":"Berlin","count":2}\n{"file":"b.txt"}\n');
+    expect(gold.get("a.txt")).toEqual([{ kind: "loc", text: "Berlin" }, { kind: "loc", text: "Berlin" }]);
+    expect(gold.get("b.txt")).toEqual([]);
+    expect(() => parseGold('{"file":"a.txt","kind":"person","text":"x"}')).toThrow(/gold.jsonl:1/);
+  });
+
+  it("matches spans by kind and text", () => {
+    const span = (kind: Span["kind"], value: string): Span => ({ start: 0, end: value.length, value, kind });
+    const res = scoreSpans(
+      [span("loc", "Berlin"), span("org", "Berlin"), span("email", "a@b.io")],
+      [{ kind: "loc", text: "Berlin" }, { kind: "email", text: "a@b.io" }, { kind: "name", text: "Jane Doe" }],
+    );
+    expect(res.matched.map((s) => s.kind)).toEqual(["loc", "email"]);
+    expect(res.spurious.map((s) => s.kind)).toEqual(["org"]);
+    expect(res.missed).toEqual([{ kind: "name", text: "Jane Doe" }]);
+  });
+});
+
+// Regression gate over the bundled synthetic resumes (TXT and PDF). Raise the floors when
+// detection improves; a change that lowers them needs a good reason.
+describe("redaction quality on the fixture corpus", () => {
+  it("stays above the recorded baseline", async () => {
+    const report = await evaluateCorpus(CORPUS);
+    expect(report.files.filter((f) => f.error)).toEqual([]);
+    expect(report.overall.precision).toBeGreaterThanOrEqual(0.95);
+    expect(report.overall.recall).toBeGreaterThanOrEqual(0.89);
+    for (const kind of ["email", "phone", "id", "linkedin", "github", "url"]) {
+      expect(report.byKind[kind]?.f1, kind).toBe(1);
+    }
+    expect(report.byKind.loc.f1).toBeGreaterThanOrEqual(0.96);
+    expect(report.byKind.org.f1).toBeGreaterThanOrEqual(0.9);
+    expect(report.bySource.layout.tp).toBeGreaterThanOrEqual(2); // PDF headings
+    expect(report.files.find((f) => f.file === "no-pii.txt")?.spurious).toEqual([]);
+  }, 60_000);
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { Buffer } from "node:buffer";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import * as path from "node:path";
+import { deflateRawSync } from "node:zlib";
+import { detectFormat, extractDocument, htmlExtract, markdownExtract, rtfExtract } from "../src/lib/extract";
+
+const summary = (lines: Array<{ text: string; maxFont: number; bold: boolean; centered: boolean }>) =>
+  lines.map((l) => [l.text, l.maxFont, l.bold, l.centered]);
+
+describe("extractors", () => {
+  it("keeps Markdown source as text and derives heading lines", () => {
+    const src = "# Jane Doe\n\n**Engineer** · [site](https://jane.dev)\n\n## Skills\n- Go\n";
+    const doc = markdownExtract(src);
+    expect(doc.text).toBe(src);
+    expect(summary(doc.firstPageLines)).toEqual([
+      ["Jane Doe", 24, true, false],
+      ["Engineer · site", 11, false, false],
+      ["Skills", 20, true, false],
+      ["Go", 11, false, false],
+    ]);
+  });
+
+  it("extracts visible HTML text with alignment and weight", () => {
+    const doc = htmlExtract(
+      "<html><head><title>CV</title><style>h1{}</style></head><body>" +
+        "<h1 style=\"text-align:center\">Jane Doe</h1><p>Mail: jane@doe.dev &amp; more</p><script>x()</script></body></html>",
+    );
+    expect(doc.text).toBe("CV\nJane Doe\nMail: jane@doe.dev & more\n");
+    expect(summary(doc.firstPageLines)).toEqual([
+      ["Jane Doe", 24, true, true],
+      ["Mail: jane@doe.dev & more", 11, false, false],
+    ]);
+  });
+
+  it("parses RTF paragraphs, escapes and skipped destinations", () => {
+    const doc = rtfExtract(
+      "{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}{\\*\\generator W;}\\pard\\qc\\b\\fs40 Ren\\'e9e Doe\\b0\\par" +
+        "\\pard\\fs22 Caf\\u233?\\tab 2020\\par}",
+    );
+    expect(doc.text).toBe("Renée Doe\nCafé\t2020\n");
+    expect(summary(doc.firstPageLines)).toEqual([
+      ["Renée Doe", 20, true, true],
+      ["Café 2020", 11, false, false],
+    ]);
+  });
+});
+
+// Minimal ZIP writer: local headers, central directory and end record (CRCs are not checked)
+function zip(entries: Array<{ name: string; data: string; deflate?: boolean }>): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const e of entries) {
+    const raw = Buffer.from(e.data, "utf8");
+    const body = e.deflate ? deflateRawSync(raw) : raw;
+    const name = Buffer.from(e.name, "utf8");
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(e.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    const dir = Buffer.alloc(46);
+    dir.writeUInt32LE(0x02014b50, 0);
+    dir.writeUInt16LE(e.deflate ? 8 : 0, 10);
+    dir.writeUInt32LE(body.length, 20);
+    dir.writeUInt32LE(raw.length, 24);
+    dir.writeUInt16LE(name.length, 28);
+    dir.writeUInt32LE(offset, 42);
+    locals.push(local, name, body);
+    central.push(dir, name);
+    offset += local.length + name.length + body.length;
+  }
+  const dirSize = central.reduce((n, b) => n + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(dirSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...central, end]);
+}
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const styles = `<w:styles ${W}><w:docDefaults><w:rPrDefault><w:rPr><w:sz w:val="22"/></w:rPr></w:rPrDefault></w:docDefaults>` +
+  `<w:style w:styleId="Heading1"><w:name w:val="heading 1"/><w:pPr><w:jc w:val="center"/></w:pPr>` +
+  `<w:rPr><w:b/><w:sz w:val="40"/></w:rPr></w:style></w:styles>`;
+const document = `<w:document ${W}><w:body>` +
+  `<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Jane Doe</w:t></w:r></w:p>` +
+  `<w:p><w:r><w:t xml:space="preserve">Mail: </w:t></w:r><w:r><w:rPr><w:b/></w:rPr><w:t>jane@doe.dev</w:t></w:r>` +
+  `<w:r><w:tab/><w:t>Berlin</w:t></w:r></w:p></w:body></w:document>`;
+// [Content_Types].xml comes first in real files; padded so "word/" is not within the first 512 bytes
+const contentTypes = `<Types>${"<!-- padding -->".repeat(40)}</Types>`;
+
+describe("DOCX extraction", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "mjctl-docx-"));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  const docx = zip([
+    { name: "[Content_Types].xml", data: contentTypes },
+    { name: "word/styles.xml", data: styles },
+    { name: "word/document.xml", data: document, deflate: true },
+  ]);
+
+  it("reads stored and deflated entries and applies paragraph styles", async () => {
+    const file = path.join(dir, "cv.docx");
+    writeFileSync(file, docx);
+    const doc = await extractDocument(file);
+    expect(doc.format).toBe("docx");
+    expect(doc.text).toBe("Jane Doe\nMail: jane@doe.dev\tBerlin\n");
+    expect(summary(doc.firstPageLines)).toEqual([
+      ["Jane Doe", 20, true, true],
+      ["Mail: jane@doe.dev Berlin", 11, false, false],
+    ]);
+  });
+
+  it("detects DOCX from the ZIP directory when the extension is unknown", async () => {
+    const file = path.join(dir, "resume-upload");
+    writeFileSync(file, docx);
+    expect((await extractDocument(file)).format).toBe("docx");
+
+    const other = zip([{ name: "[Content_Types].xml", data: contentTypes }, { name: "xl/workbook.xml", data: "<x/>" }]);
+    expect(detectFormat("sheet.bin", other)).toBe("text");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { chunkText, extractJson, OllamaFlagger } from "../src/lib/flagger_ollama";
+
+// Stub Ollama: finds "Jane Doe" / "Initech" in the prompt input and answers like a sloppy model
+// (code fences, prose, wrong offsets, odd label names).
+let server: Server;
+let url = "";
+const prompts: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      const { prompt, model } = JSON.parse(body) as { prompt: string; model: string };
+      prompts.push(prompt);
+      if (model === "stalled-model") {
+        // Headers and a first byte, then nothing
+        res.writeHead(200, { "Content-Type": "application/json" }).write("{");
+        return;
+      }
+      if (req.url !== "/api/generate" || model !== "test-model") {
+        res.writeHead(404).end("model not found");
+        return;
+      }
+      const input = prompt.slice(prompt.lastIndexOf("Input:\n") + 7);
+      const spans = [];
+      if (input.includes("Jane Doe")) spans.push({ text: "Jane  Doe", label: "PERSON", start: 999 });
+      if (input.includes("Initech")) spans.push({ text: "initech", type: "Company" });
+      spans.push({ text: "not in the text", label: "name" }, { text: "x", label: "skill" });
+      const reply = "Sure! Here you go:\n```json\n" + JSON.stringify({ spans }) + "\n```";
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ response: reply }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("OllamaFlagger", () => {
+  it("re-anchors model spans to the text", async () => {
+    const text = "Jane Doe\nSenior engineer at Initech.\nContact Jane Doe for details.";
+    const flagger = new OllamaFlagger({ endpoint: url, model: "test-model" });
+    const spans = await flagger.flag(text);
+    expect(spans.map((s) => [text.slice(s.start, s.end), s.label])).toEqual([
+      ["Jane Doe", "name"],
+      ["Initech", "org"],
+      ["Jane Doe", "name"],
+    ]);
+  });
+
+  it("chunks long input and maps offsets back", async () => {
+    prompts.length = 0;
+    const filler = "lorem ipsum dolor sit amet ".repeat(20);
+    const text = `${filler}\nJane Doe\n${filler}\nInitech\n${filler}`;
+    const flagger = new OllamaFlagger({ endpoint: url, model: "test-model", chunkSize: 300, overlap: 40 });
+    const spans = await flagger.flag(text);
+    expect(prompts.length).toBeGreaterThan(2);
+    expect(spans.map((s) => text.slice(s.start, s.end))).toEqual(["Jane Doe", "Initech"]);
+  });
+
+  it("fails with a clear error when the model is missing", async () => {
+    const flagger = new OllamaFlagger({ endpoint: url, model: "nope" });
+    await expect(flagger.flag("Jane Doe")).rejects.toThrow(/404/);
+  });
+
+  it("times out when the response body stalls", async () => {
+    const flagger = new OllamaFlagger({ endpoint: url, model: "stalled-model", timeoutMs: 300 });
+    await expect(flagger.flag("Jane Doe")).rejects.toThrow(/timed out after 300 ms/);
+  });
+});
+
+describe("flagger helpers", () => {
+  it("covers the whole text with overlapping chunks", () => {
+    const text = "word ".repeat(500);
+    const chunks = chunkText(text, 200, 50);
+    expect(chunks[0].offset).toBe(0);
+    for (let i = 1; i < chunks.length; i++) {
+      const prevEnd = chunks[i - 1].offset + chunks[i - 1].text.length;
+      expect(chunks[i].offset).toBeLessThan(prevEnd);
+      expect(chunks[i].offset).toBeGreaterThan(chunks[i - 1].offset);
+    }
+    const last = chunks[chunks.length - 1];
+    expect(last.offset + last.text.length).toBe(text.length);
+  });
+
+  it("extracts JSON from chatty replies", () => {
+    expect(extractJson('Result: {"spans": [{"text": "a}b"}]} done')).toEqual({ spans: [{ text: "a}b" }] });
+    expect(extractJson("no json here")).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { findIdentifierSpans, ibanValid, luhnValid, parsePhone, verhoeffValid } from "../src/lib/identifiers";
+
+const found = (text: string) => findIdentifierSpans(text).map((s) => [s.value, s.validator, s.country]);
+
+describe("checksums", () => {
+  it("validates Luhn, IBAN and Verhoeff", () => {
+    expect(luhnValid("4111111111111111")).toBe(true);
+    expect(luhnValid("4111111111111112")).toBe(false);
+    expect(ibanValid("DE89370400440532013000")).toBe(true);
+    expect(ibanValid("DE89370400440532013001")).toBe(false);
+    expect(verhoeffValid("234567890124")).toBe(true);
+    expect(verhoeffValid("234567890123")).toBe(false);
+  });
+});
+
+describe("parsePhone", () => {
+  it("resolves country codes and checks national number length", () => {
+    expect(parsePhone("+49 30 901820")).toMatchObject({ country: "DE", e164: "+4930901820" });
+    expect(parsePhone("+44 (0)20 7946 0958")).toMatchObject({ country: "GB", e164: "+442079460958" });
+    expect(parsePhone("(415) 555-0100")).toMatchObject({ country: "NANP", e164: "+14155550100" });
+    expect(parsePhone("+49 30")).toBeNull();
+  });
+
+  it("keeps international numbers with calling codes outside the table", () => {
+    expect(parsePhone("+356 2123 4567", true)).toMatchObject({ country: "unknown", e164: "+35621234567" });
+    expect(parsePhone("+233 24 123 4567")).toMatchObject({ country: "unknown", e164: "+233241234567" });
+    expect(parsePhone("+977 1 4412345")).toMatchObject({ country: "unknown", e164: "+97714412345" });
+    expect(parsePhone("+999 12")).toBeNull();
+    const text = "Phone: +356 2123 4567\nMobile: +233 24 123 4567\nTel: +977 1 4412345";
+    expect(found(text)).toEqual([
+      ["+356 2123 4567", "e164", "unknown"],
+      ["+233 24 123 4567", "e164", "unknown"],
+      ["+977 1 4412345", "e164", "unknown"],
+    ]);
+  });
+
+  it("rejects years, dates and version-like numbers", () => {
+    for (const s of ["2019-2023", "2019 2023", "2020-05-12", "12.05.2020", "192.168.10.254", "12 345 678"]) {
+      expect(parsePhone(s)).toBeNull();
+    }
+    expect(parsePhone("12 345 678", true)).toMatchObject({ country: "unknown" });
+  });
+});
+
+describe("findIdentifierSpans", () => {
+  it("finds validated identifiers and phones with their validator", () => {
+    const text = [
+      "Phone: +1 415 555 0100, office 030 12345678",
+      "Card 4111 1111 1111 1111, not a card 1234 5678 9012 3456",
+      "IBAN DE89 3704 0044 0532 0130 00 BIC COBADEFFXXX",
+      "SSN 123-45-6789, SIN 130 692 544, NIN AB123456C, Aadhaar 2345 6789 0124",
+      "Worked there 2019-2023 (since 2020-05-12) on Python 3.11.4",
+    ].join("\n");
+    expect(found(text)).toEqual([
+      ["+1 415 555 0100", "e164", "NANP"],
+      ["030 12345678", "phone-national", "national"],
+      ["4111 1111 1111 1111", "luhn:visa", undefined],
+      ["DE89 3704 0044 0532 0130 00", "iban-mod97", "DE"],
+      ["123-45-6789", "us-ssn", "US"],
+      ["130 692 544", "ca-sin-luhn", "CA"],
+      ["AB123456C", "uk-nin", "GB"],
+      ["2345 6789 0124", "aadhaar-verhoeff", "IN"],
+    ]);
+  });
+
+  it("scores labeled identifiers higher", () => {
+    const [labeled] = findIdentifierSpans("SSN: 123-45-6789");
+    const [bare] = findIdentifierSpans("ref 123-45-6789");
+    expect(labeled.score).toBeGreaterThan(bare.score!);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { Buffer } from "node:buffer";
+import { decodeJwt, jwtScopes } from "../src/lib/jwt";
+
+const part = (o: object) => Buffer.from(JSON.stringify(o)).toString("base64url");
+
+describe("decodeJwt", () => {
+  it("reads header and claims without verifying", () => {
+    const token = `${part({ alg: "RS256" })}.${part({ sub: "u_1", exp: 1700000000, scope: "default offline_access" })}.bogus`;
+    expect(decodeJwt(token)).toEqual({
+      header: { alg: "RS256" },
+      claims: { sub: "u_1", exp: 1700000000, scope: "default offline_access" },
+    });
+  });
+
+  it("returns null for opaque or malformed tokens", () => {
+    expect(decodeJwt("a2")).toBeNull();
+    expect(decodeJwt("a.b.c")).toBeNull();
+    expect(decodeJwt(`${part({ alg: "none" })}.${part([1, 2])}.`)).toBeNull();
+  });
+
+  it("collects scopes from scope or scp", () => {
+    expect(jwtScopes({ scope: "a  b" })).toEqual(["a", "b"]);
+    expect(jwtScopes({ scp: ["a", "b"] })).toEqual(["a", "b"]);
+    expect(jwtScopes({})).toEqual([]);
+  });
+});
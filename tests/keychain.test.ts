@@ -0,0 +1,92 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { cfg } from "../src/lib/config";
+import { decryptString, encryptString, envelopeInfo, keychainBackend, migrateTokens } from "../src/lib/keychain";
+import type { Keychain } from "../src/lib/keychain";
+
+class MemoryKeychain implements Keychain {
+  items = new Map<string, string>();
+  async setSecret(service: string, account: string, password: string) {
+    this.items.set(`${service}/${account}`, password);
+  }
+  async getSecret(service: string, account: string) {
+    return this.items.get(`${service}/${account}`) ?? null;
+  }
+  async deleteSecret(service: string, account: string) {
+    return this.items.delete(`${service}/${account}`);
+  }
+}
+
+// Stores whatever it is given, but hands back something else
+class LossyKeychain extends MemoryKeychain {
+  override async getSecret(service: string, account: string) {
+    const v = await super.getSecret(service, account);
+    return v && v.slice(0, -1);
+  }
+}
+
+const svc = cfg.keychainService;
+
+describe("keychain envelopes", () => {
+  it("writes v2 and keeps reading v1 envelopes", async () => {
+    const v2 = await encryptString("secret", "pw");
+    expect(envelopeInfo(v2)).toEqual({ v: 2, kdf: { name: "PBKDF2", hash: "SHA-256", iterations: 150_000 } });
+    // v1 had the same layout without a KDF choice
+    const v1 = JSON.stringify({ ...JSON.parse(v2), v: 1 });
+    expect(await decryptString(v1, "pw")).toBe("secret");
+  });
+
+  it("round-trips scrypt and rejects a wrong passphrase", async () => {
+    const data = await encryptString("secret", "pw", { name: "scrypt", N: 1024, r: 8, p: 1 });
+    expect(envelopeInfo(data).kdf).toEqual({ name: "scrypt", N: 1024, r: 8, p: 1 });
+    expect(await decryptString(data, "pw")).toBe("secret");
+    await expect(decryptString(data, "other")).rejects.toThrow();
+  });
+
+  it("refuses unknown envelope versions", async () => {
+    const data = JSON.stringify({ ...JSON.parse(await encryptString("x", "pw")), v: 3 });
+    await expect(decryptString(data, "pw")).rejects.toThrow(/envelope v3/);
+  });
+});
+
+describe("keychain backends", () => {
+  const backend = cfg.keychainBackend;
+  afterEach(() => {
+    cfg.keychainBackend = backend;
+  });
+
+  it("moves tokens and verifies the copy", async () => {
+    const from = new MemoryKeychain();
+    const to = new MemoryKeychain();
+    await from.setSecret(svc, "tokens", '{"accessToken":"a"}');
+    expect(await migrateTokens(from, to, ["tokens", "tokens@staging"])).toEqual(["tokens"]);
+    expect(await to.getSecret(svc, "tokens")).toBe('{"accessToken":"a"}');
+    expect(await from.getSecret(svc, "tokens")).toBeNull();
+  });
+
+  it("leaves the source in place with keep", async () => {
+    const from = new MemoryKeychain();
+    const to = new MemoryKeychain();
+    await from.setSecret(svc, "tokens", "t");
+    await migrateTokens(from, to, ["tokens"], { keep: true });
+    expect(await from.getSecret(svc, "tokens")).toBe("t");
+    expect(await to.getSecret(svc, "tokens")).toBe("t");
+  });
+
+  it("keeps the source when the copy does not read back", async () => {
+    const from = new MemoryKeychain();
+    await from.setSecret(svc, "tokens", "t1");
+    await from.setSecret(svc, "tokens@staging", "t2");
+    await expect(migrateTokens(from, new LossyKeychain(), ["tokens", "tokens@staging"])).rejects.toThrow(
+      /did not read back correctly/,
+    );
+    expect(await from.getSecret(svc, "tokens")).toBe("t1");
+    expect(await from.getSecret(svc, "tokens@staging")).toBe("t2");
+  });
+
+  it("rejects an unknown backend name", () => {
+    cfg.keychainBackend = "keyring";
+    expect(() => keychainBackend()).toThrow(/Unknown keychain backend "keyring".*file, prompt, secret-service, pass/);
+    cfg.keychainBackend = " pass ";
+    expect(keychainBackend()).toBe("pass");
+  });
+});
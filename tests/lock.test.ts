@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import * as path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { LockTimeoutError, withFileLock } from "../src/lib/lock";
+
+async function tmpLock() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "mjctl-lock-"));
+  return path.join(dir, "refresh.lock");
+}
+
+describe("withFileLock", () => {
+  it("serializes holders and removes the lock afterwards", async () => {
+    const file = await tmpLock();
+    const events: string[] = [];
+    const hold = (name: string) =>
+      withFileLock(file, async () => {
+        events.push(`${name}:in`);
+        await sleep(30);
+        events.push(`${name}:out`);
+      }, { pollMs: 5 });
+    await Promise.all([hold("a"), hold("b")]);
+    expect(events).toEqual(["a:in", "a:out", "b:in", "b:out"]);
+    await expect(fs.access(file)).rejects.toThrow();
+  });
+
+  it("breaks locks left by a dead process or held too long", async () => {
+    const file = await tmpLock();
+    await fs.writeFile(file, JSON.stringify({ pid: 2 ** 22 + 1, host: os.hostname(), at: Date.now(), id: "x" }));
+    expect(await withFileLock(file, async () => "dead owner", { timeoutMs: 500 })).toBe("dead owner");
+    await fs.writeFile(file, JSON.stringify({ pid: 1, host: "elsewhere", at: Date.now() - 120_000, id: "y" }));
+    expect(await withFileLock(file, async () => "old lock", { timeoutMs: 500 })).toBe("old lock");
+  });
+
+  it("keeps a slow holder's lock fresh", async () => {
+    const file = await tmpLock();
+    const events: string[] = [];
+    const opts = { staleMs: 100, pollMs: 5 };
+    const slow = withFileLock(file, async () => {
+      events.push("slow:in");
+      await sleep(400);
+      events.push("slow:out");
+    }, opts);
+    await sleep(20);
+    await withFileLock(file, async () => {
+      events.push("next:in");
+    }, opts);
+    await slow;
+    expect(events).toEqual(["slow:in", "slow:out", "next:in"]);
+    await expect(fs.access(file)).rejects.toThrow();
+  });
+
+  it("times out while a live owner holds the lock", async () => {
+    const file = await tmpLock();
+    await fs.writeFile(file, JSON.stringify({ pid: 1, host: "elsewhere", at: Date.now(), id: "z" }));
+    await expect(withFileLock(file, async () => "never", { timeoutMs: 100, pollMs: 10 }))
+      .rejects.toBeInstanceOf(LockTimeoutError);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { findOrgLocSpans, generalizeOrg, parseEmployerList } from "../src/lib/orgloc";
+
+const RESUME = [
+  "Jane Doe",
+  "Berlin",
+  "",
+  "Summary",
+  "Engineer who loves building at Scale.",
+  "",
+  "Experience",
+  "Senior Engineer at Initech Payments, Austin, TX",
+  "Analyst at Deutsche Bank in Frankfurt",
+  "Worked at Acme Widgets GmbH on billing.",
+  "",
+  "Education",
+  "Exchange semester at Sorbonne",
+].join("\n");
+
+const found = (text: string, employers = parseEmployerList("")) =>
+  findOrgLocSpans(text, { employers }).map((s) => [s.value, s.kind, s.source, s.replacement]);
+
+describe("findOrgLocSpans", () => {
+  it("finds employers and places in experience sections", () => {
+    expect(found(RESUME)).toEqual([
+      ["Berlin", "loc", "gazetteer", "a city in Germany"],
+      ["Initech Payments", "org", "heuristic", "a fintech company"],
+      ["Austin, TX", "loc", "gazetteer", "a city in the US"],
+      ["Deutsche Bank", "org", "heuristic", "a bank"],
+      ["Frankfurt", "loc", "gazetteer", "a city in Germany"],
+      ["Acme Widgets GmbH", "org", "heuristic", "a company"],
+    ]);
+  });
+
+  it("lets the employer list describe longer matches", () => {
+    const employers = parseEmployerList("# past jobs\nAcme = a Fortune 500 fintech company\nglobex.com\n");
+    const spans = found("Worked at Acme Widgets GmbH, then joined globex.com.\nacme rocks", employers);
+    expect(spans).toEqual([
+      ["Acme Widgets GmbH", "org", "list", "a Fortune 500 fintech company"],
+      ["globex.com", "org", "list", "a company"],
+      ["acme", "org", "list", "a Fortune 500 fintech company"],
+    ]);
+  });
+
+  it("keeps the company part of verb phrases case-sensitive", () => {
+    expect(found("I joined Initech Payments before it was cool.")).toEqual([
+      ["Initech Payments", "org", "heuristic", "a fintech company"],
+    ]);
+  });
+});
+
+describe("generalizeOrg", () => {
+  it("describes organizations by kind", () => {
+    expect(generalizeOrg("First National Bank")).toBe("a bank");
+    expect(generalizeOrg("Stanford University")).toBe("a university");
+    expect(generalizeOrg("Globex")).toBe("a company");
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { Buffer } from "node:buffer";
+import { inflateSync } from "node:zlib";
+import { renderPdf } from "../src/lib/pdfwrite";
+
+function contentStreams(pdf: Buffer): string[] {
+  const raw = pdf.toString("latin1");
+  return [...raw.matchAll(/stream\n([\s\S]*?)\nendstream/g)].map((m) =>
+    inflateSync(Buffer.from(m[1], "latin1")).toString("latin1"),
+  );
+}
+
+describe("renderPdf", () => {
+  it("writes a valid xref and draws boxes instead of text", () => {
+    const pdf = renderPdf([
+      { runs: [{ kind: "box", chars: 8 }], font: 24, bold: true, centered: true },
+      { runs: [{ kind: "text", text: "Role (Senior)" }, { kind: "box", chars: 5 }], font: 11, bold: false, centered: false },
+    ]);
+    const raw = pdf.toString("latin1");
+    expect(raw.startsWith("%PDF-1.4")).toBe(true);
+    expect(raw).not.toContain("/Info");
+
+    const xrefAt = Number(/startxref\n(\d+)/.exec(raw)![1]);
+    expect(raw.slice(xrefAt, xrefAt + 4)).toBe("xref");
+    const firstObj = Number(/xref\n0 \d+\n0000000000 65535 f \n(\d{10})/.exec(raw)![1]);
+    expect(raw.slice(firstObj, firstObj + 7)).toBe("1 0 obj");
+
+    const [page] = contentStreams(pdf);
+    expect(page.match(/ re f/g)).toHaveLength(2);
+    expect(page).toContain("(Role \\(Senior\\)) Tj");
+  });
+
+  it("starts new pages when content overflows", () => {
+    const blocks = Array.from({ length: 80 }, (_, i) => ({
+      runs: [{ kind: "text" as const, text: `Line ${i}` }],
+      font: 11,
+      bold: false,
+      centered: false,
+    }));
+    expect(renderPdf(blocks).toString("latin1")).toContain("/Count 2");
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { findPiiInDocument, namesFromEmail } from "../src/lib/pii";
+
+describe("findPiiInDocument", () => {
+  it("reports findings with their field path", () => {
+    const doc = {
+      Title: "Backend Developer",
+      Summary: "Reach me at jane.doe@example.com. Name: Jane Doe",
+      Experience: [{ Role: "Dev", Description: "see linkedin.com/in/janedoe" }],
+    };
+    const found = findPiiInDocument(doc, { names: namesFromEmail("jane.doe@example.com") });
+    expect(found.map((f) => [f.path.join("."), f.kind, f.value])).toEqual([
+      ["Summary", "email", "jane.doe@example.com"],
+      ["Summary", "name", "Jane Doe"],
+      ["Experience.0.Description", "linkedin", "linkedin.com/in/janedoe"],
+    ]);
+  });
+
+  it("derives name variants from an email", () => {
+    expect(namesFromEmail("jane.doe42@example.com")).toEqual(["jane doe", "jane", "doe"]);
+    expect(namesFromEmail("jd@example.com")).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { URL } from "node:url";
+import { listProposals, Proposal } from "../src/lib/api";
+import { proposalFilter, proposalRow } from "../src/lib/proposals";
+
+// A valid stored token, so requests go straight to fetch
+vi.mock("../src/lib/keychain", () => ({
+  loadTokens: async () => ({ accessToken: "t", refreshToken: "r", expiresAt: Math.floor(Date.now() / 1000) + 3600 }),
+  deleteTokens: async () => {},
+}));
+
+const raw = {
+  ProposalID: "p1",
+  ProfileID: "abc123",
+  Status: "new",
+  Company: "Initech",
+  JobTitle: "Staff Engineer",
+  Created: "2026-10-01T10:00:00Z",
+  Perks: ["remote budget"], // not a typed field
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("Proposal", () => {
+  it("maps the payload onto typed fields", () => {
+    const p = new Proposal(raw);
+    expect(p.ProposalID).toBe("p1");
+    expect(p.Company).toBe("Initech");
+    expect(p.Created).toBe("2026-10-01T10:00:00Z");
+    expect(p.Perks).toEqual(["remote budget"]);
+    expect(p.Recruiter).toBeUndefined();
+  });
+
+  it("serializes back to the raw payload", () => {
+    const p = new Proposal(raw);
+    expect(JSON.parse(JSON.stringify(p))).toEqual(raw);
+    expect(JSON.stringify([p])).toBe(JSON.stringify([raw]));
+  });
+});
+
+describe("proposals list", () => {
+  it("validates the filter options", () => {
+    expect(proposalFilter({ profile: "abc123", status: "accepted", since: "2026-10-01" })).toEqual({
+      ProfileID: "abc123",
+      Status: "accepted",
+      Since: "2026-10-01",
+      Until: undefined,
+    });
+    expect(() => proposalFilter({ status: "open" })).toThrow(/--status must be one of/);
+    expect(() => proposalFilter({ since: "1.10.2026" })).toThrow(/YYYY-MM-DD/);
+    expect(() => proposalFilter({ until: "2026-10" })).toThrow(/YYYY-MM-DD/);
+  });
+
+  it("sends only the given filters as query parameters", async () => {
+    const fetchMock = vi.fn(async () => new globalThis.Response(JSON.stringify([raw]), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const list = await listProposals(proposalFilter({ status: "new", until: "2026-10-31" }));
+
+    const url = new URL(String((fetchMock.mock.calls[0] as unknown[])[0]));
+    expect(url.pathname).toMatch(/\/user\/proposals$/);
+    expect(Object.fromEntries(url.searchParams)).toEqual({ Status: "new", Until: "2026-10-31" });
+    expect(list).toHaveLength(1);
+    expect(list[0]).toBeInstanceOf(Proposal);
+  });
+
+  it("formats one row per proposal", () => {
+    expect(proposalRow(new Proposal(raw), 0)).toBe(
+      "1. p1  [new]  Staff Engineer @ Initech  profile abc123  2026-10-01",
+    );
+    expect(proposalRow(new Proposal({}), 4)).toBe(
+      "5. -  [-]  (untitled job) @ (unknown company)  profile -  -",
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import * as path from "node:path";
+import process from "node:process";
+import * as api from "../src/lib/api";
+import { Input } from "../src/lib/prompt";
+import { log } from "../src/lib/log";
+import { readRevealLog } from "../src/lib/reveals";
+import { proposalsCommand } from "../src/commands/proposals";
+
+vi.mock("../src/lib/api", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("../src/lib/api")>();
+  return {
+    ...mod,
+    getProposal: vi.fn(async (id: string) =>
+      new mod.Proposal({ ProposalID: id, ProfileID: "abc123", Status: "accepted", Company: "Initech", Recruiter: "Bill" })
+    ),
+    getIdentity: vi.fn(async () => ({ Email: "jane@example.com", Phone: "+1 415 555 0100" })),
+    revealIdentity: vi.fn(async () => ({ Revealed: "2026-10-19T10:00:00Z" })),
+  };
+});
+
+vi.mock("../src/lib/prompt", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("../src/lib/prompt")>();
+  return { ...mod, Input: { prompt: vi.fn() } };
+});
+
+const dir = mkdtempSync(path.join(os.tmpdir(), "mjctl-reveal-"));
+vi.stubEnv("XDG_CONFIG_HOME", path.join(dir, "config"));
+
+const stdinTTY = process.stdin.isTTY;
+function setTTY(value: boolean) {
+  Object.defineProperty(process.stdin, "isTTY", { value, configurable: true });
+}
+
+beforeEach(() => {
+  vi.mocked(api.revealIdentity).mockClear();
+  vi.mocked(Input.prompt).mockReset();
+  setTTY(false);
+});
+
+afterEach(() => {
+  process.exitCode = undefined;
+});
+
+afterAll(() => {
+  setTTY(stdinTTY);
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const reveal = (...args: string[]) => proposalsCommand.parseAsync(["reveal", "p1", ...args], { from: "user" });
+
+// Commander keeps option values between parses, so the tests without flags come first
+describe("proposals reveal", () => {
+  it("refuses without a terminal unless --yes-reveal is given", async () => {
+    await reveal();
+    expect(api.revealIdentity).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("reveals with --yes-reveal and logs the fields, not their values", async () => {
+    await reveal("--yes-reveal", "--fields", "email,phone");
+    expect(api.revealIdentity).toHaveBeenCalledWith("p1", ["Email", "Phone"]);
+    expect(await readRevealLog()).toEqual([
+      {
+        at: "2026-10-19T10:00:00Z",
+        ProposalID: "p1",
+        ProfileID: "abc123",
+        Company: "Initech",
+        Recruiter: "Bill",
+        Fields: ["Email", "Phone"],
+      },
+    ]);
+  });
+
+  it("still asks for the company name on a terminal", async () => {
+    setTTY(true);
+    vi.mocked(Input.prompt).mockResolvedValueOnce("Initrode");
+    await reveal("--yes-reveal", "--fields", "email");
+    expect(Input.prompt).toHaveBeenCalledTimes(1);
+    expect(api.revealIdentity).not.toHaveBeenCalled();
+
+    vi.mocked(Input.prompt).mockResolvedValueOnce("  initech ");
+    await reveal("--yes-reveal", "--fields", "email");
+    expect(api.revealIdentity).toHaveBeenCalledWith("p1", ["Email"]);
+  });
+
+  it("warns when the reveal succeeded but could not be logged", async () => {
+    // The config dir is a file, so the log cannot be written
+    const blocked = path.join(dir, "blocked");
+    writeFileSync(blocked, "");
+    vi.stubEnv("XDG_CONFIG_HOME", blocked);
+    const warn = vi.spyOn(log, "warn");
+    const error = vi.spyOn(log, "error");
+
+    await reveal("--yes-reveal", "--fields", "email");
+
+    expect(api.revealIdentity).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/reveal succeeded but was not logged/), expect.any(String));
+    expect(error).not.toHaveBeenCalled();
+    warn.mockRestore();
+    error.mockRestore();
+    vi.stubEnv("XDG_CONFIG_HOME", path.join(dir, "config"));
+  });
+});
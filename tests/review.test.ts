@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import type { Span } from "../src/lib/pii";
+import type { ReviewDecision } from "../src/lib/review";
+import { applyDecisions, mergeDecisions } from "../src/lib/review";
+
+const TEXT = "Jane Doe\nPhone 2019 2023\nBerlin";
+const SPANS: Span[] = [
+  { start: 15, end: 24, value: "2019 2023", kind: "phone", source: "regex" },
+  { start: 25, end: 31, value: "Berlin", kind: "loc", source: "gazetteer" },
+];
+
+describe("applyDecisions", () => {
+  it("rejects, changes and adds spans", () => {
+    const decisions: ReviewDecision[] = [
+      { action: "reject", start: 15, end: 24, value: "2019 2023", kind: "phone" },
+      { action: "accept", start: 25, end: 31, value: "Berlin", kind: "address", mode: "generalize" },
+      { action: "add", start: 0, end: 8, value: "Jane Doe", kind: "name", mode: "hash" },
+    ];
+    expect(applyDecisions(TEXT, SPANS, decisions)).toEqual([
+      { start: 0, end: 8, value: "Jane Doe", kind: "name", source: "manual", rule: "review", mode: "hash" },
+      { start: 25, end: 31, value: "Berlin", kind: "address", source: "gazetteer", mode: "generalize" },
+    ]);
+  });
+
+  it("ignores decisions that no longer match the text", () => {
+    const stale: ReviewDecision[] = [
+      { action: "reject", start: 25, end: 31, value: "Munich", kind: "loc" },
+      { action: "add", start: 0, end: 4, value: "John", kind: "name" },
+    ];
+    expect(applyDecisions(TEXT, SPANS, stale)).toEqual(SPANS);
+  });
+});
+
+describe("mergeDecisions", () => {
+  it("lets the newer review win and drops rejected hand-added spans", () => {
+    const previous: ReviewDecision[] = [
+      { action: "add", start: 0, end: 8, value: "Jane Doe", kind: "name" },
+      { action: "reject", start: 25, end: 31, value: "Berlin", kind: "loc" },
+      { action: "add", start: 9, end: 14, value: "Phone", kind: "id" },
+    ];
+    const next: ReviewDecision[] = [
+      { action: "accept", start: 0, end: 8, value: "Jane Doe", kind: "name", mode: "drop" },
+      { action: "reject", start: 9, end: 14, value: "Phone", kind: "id" },
+      { action: "accept", start: 25, end: 31, value: "Berlin", kind: "loc" },
+    ];
+    expect(mergeDecisions(previous, next)).toEqual([
+      { action: "add", start: 0, end: 8, value: "Jane Doe", kind: "name", mode: "drop" },
+      { action: "accept", start: 25, end: 31, value: "Berlin", kind: "loc" },
+    ]);
+  });
+});
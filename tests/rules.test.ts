@@ -0,0 +1,78 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import * as path from "node:path";
+import { dropAllowed, findRuleSpans, parseRules } from "../src/lib/rules";
+import { redactResumeFile } from "../src/lib/pii";
+import type { Span } from "../src/lib/pii";
+
+const RULES = `
+patterns:
+  - name: employee-id
+    kind: id
+    regex: "emp-\\\\d{6}"
+    flags: i
+deny:
+  name: [JD]
+  org: Project Falcon
+allow:
+  - GitHub Actions
+modes:
+  org: generalize
+`;
+
+describe("parseRules", () => {
+  it("reads patterns, deny/allow lists and modes", () => {
+    const rules = parseRules(RULES);
+    expect(rules.patterns.map((p) => [p.name, p.kind, p.regex.flags])).toEqual([["employee-id", "id", "gi"]]);
+    expect(rules.deny).toEqual([{ term: "JD", kind: "name" }, { term: "Project Falcon", kind: "org" }]);
+    expect(rules.allow).toEqual(["GitHub Actions"]);
+    expect(rules.modes).toEqual({ org: "generalize" });
+  });
+
+  it("names the offending entry", () => {
+    expect(() => parseRules("patterns:\n  - kind: person\n    regex: x\n")).toThrow(/patterns\[0\]\.kind/);
+    expect(() => parseRules("patterns:\n  - kind: id\n    regex: '('\n")).toThrow(/patterns\[0\]\.regex is invalid/);
+    expect(() => parseRules("modes:\n  org: blur\n")).toThrow(/modes\.org/);
+    expect(() => parseRules("deny:\n  codename: [x]\n")).toThrow(/deny\.codename/);
+  });
+});
+
+describe("rule spans", () => {
+  it("records which rule fired", () => {
+    const text = "JD (EMP-123456) led Project Falcon; JDK is not a name";
+    const spans = findRuleSpans(text, parseRules(RULES));
+    expect(spans.map((s) => [s.value, s.kind, s.rule])).toEqual([
+      ["JD", "name", "deny:JD"],
+      ["EMP-123456", "id", "pattern:employee-id"],
+      ["Project Falcon", "org", "deny:Project Falcon"],
+    ]);
+  });
+
+  it("drops spans inside allow-listed terms", () => {
+    const text = "CI on GitHub Actions, code on GitHub";
+    const spans: Span[] = [
+      { start: 6, end: 12, value: "GitHub", kind: "github", source: "flagger" },
+      { start: 30, end: 36, value: "GitHub", kind: "github", source: "flagger" },
+    ];
+    expect(dropAllowed(text, spans, ["github actions"]).map((s) => s.start)).toEqual([30]);
+  });
+});
+
+describe("rules in redactResumeFile", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "mjctl-rules-"));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("redacts all of a built-in span that a deny term overlaps", async () => {
+    const file = path.join(dir, "cv.txt");
+    writeFileSync(file, "Senior engineer\nContact: jdoe@example.com\n");
+    const res = await redactResumeFile(file, {
+      rules: parseRules("deny:\n  name: [jdoe]\n"),
+      detectNameFromLayout: false,
+      detectOrgLoc: false,
+    });
+    expect(res.redactedText).not.toContain("example.com");
+    expect(res.redactedText).toContain("Contact: ****************");
+    expect(res.hits.map((h) => [h.value, h.kind, h.rule])).toContainEqual(["jdoe@example.com", "name", "deny:jdoe"]);
+  });
+});
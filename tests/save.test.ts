@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import * as path from "node:path";
+import process from "node:process";
+import { parse } from "yaml";
+import * as api from "../src/lib/api";
+import { Confirm, Select } from "../src/lib/prompt";
+import { readSyncState, writeProfileDraft } from "../src/lib/sync";
+import { profilesCommand } from "../src/commands/profiles";
+
+const BASE = "ProfileID: s1\nTitle: Backend Developer\nSummary: Go services\n";
+// The server copy getProfile returns
+let server = { Yaml: BASE, Updated: "2026-10-01" };
+
+vi.mock("../src/lib/api", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("../src/lib/api")>();
+  return {
+    ...mod,
+    getProfile: vi.fn(async () => new mod.Profile({ ProfileID: "s1", ...server })),
+    updateProfile: vi.fn(async (id: string) => new mod.Profile({ ProfileID: id, Yaml: "ProfileID: s1\n", Updated: "2026-10-09" })),
+    deleteProfile: vi.fn(async () => {}),
+    listBlockedEmployers: vi.fn(async () => []),
+  };
+});
+
+vi.mock("../src/lib/prompt", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("../src/lib/prompt")>();
+  return { ...mod, Confirm: { prompt: vi.fn(async () => true) }, Select: { prompt: vi.fn() } };
+});
+
+const dir = mkdtempSync(path.join(os.tmpdir(), "mjctl-save-"));
+const file = path.join(dir, "profile-s1.yaml");
+vi.stubEnv("XDG_CONFIG_HOME", path.join(dir, "config"));
+
+const stdinTTY = process.stdin.isTTY;
+function setTTY(value: boolean) {
+  Object.defineProperty(process.stdin, "isTTY", { value, configurable: true });
+}
+
+beforeEach(() => {
+  vi.mocked(api.updateProfile).mockClear();
+  vi.mocked(Confirm.prompt).mockClear();
+  vi.mocked(Select.prompt).mockReset();
+  setTTY(false);
+});
+
+afterAll(() => {
+  setTTY(stdinTTY);
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// Download the base revision, then edit the draft locally
+async function draft(edited: string) {
+  server = { Yaml: BASE, Updated: "2026-10-01" };
+  await writeProfileDraft(file, new api.Profile({ ProfileID: "s1", ...server }));
+  writeFileSync(file, edited);
+}
+
+const save = () => profilesCommand.parseAsync(["save", file], { from: "user" });
+
+describe("profiles save", () => {
+  it("uploads when the server revision is the one the draft was based on", async () => {
+    await draft(BASE.replace("Backend", "Senior Backend"));
+    await save();
+    expect(api.updateProfile).toHaveBeenCalledWith("s1", expect.objectContaining({ Title: "Senior Backend Developer" }));
+    expect((await readSyncState(file))?.revision).toBe("updated:2026-10-09");
+  });
+
+  it("refuses to overwrite server edits without a terminal", async () => {
+    await draft(BASE.replace("Backend", "Senior Backend"));
+    server = { Yaml: BASE.replace("Go services", "Go and Rust services"), Updated: "2026-10-05" };
+    await save();
+    expect(Confirm.prompt).not.toHaveBeenCalled();
+    expect(api.updateProfile).not.toHaveBeenCalled();
+  });
+
+  it("merges server edits into the draft on request", async () => {
+    setTTY(true);
+    await draft(BASE.replace("Backend", "Senior Backend"));
+    server = { Yaml: BASE.replace("Go services", "Go and Rust services"), Updated: "2026-10-05" };
+    vi.mocked(Select.prompt).mockResolvedValueOnce("merge");
+
+    await save();
+
+    const merged = { ProfileID: "s1", Title: "Senior Backend Developer", Summary: "Go and Rust services" };
+    expect(parse(readFileSync(file, "utf8"))).toEqual(merged);
+    expect(api.updateProfile).toHaveBeenCalledWith("s1", merged);
+  });
+});
+
+describe("profiles delete", () => {
+  it("deletes the profile given as argument", async () => {
+    await profilesCommand.parseAsync(["delete", "s1", "-y"], { from: "user" });
+    expect(api.deleteProfile).toHaveBeenCalledWith("s1");
+  });
+});
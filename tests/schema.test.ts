@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { validateProfileYaml } from "../src/lib/schema";
+
+describe("validateProfileYaml", () => {
+  it("accepts a minimal profile", () => {
+    const { issues } = validateProfileYaml("ProfileID: abc1\nTitle: Senior Developer\n");
+    expect(issues).toEqual([]);
+  });
+
+  it("reports schema errors with line and column", () => {
+    const yaml = [
+      "ProfileID: abc1",
+      "Title: Senior Developer",
+      "Visibility: secret",
+      "Experience:",
+      "  - Role: Developer",
+      "    Start: 2020-13",
+    ].join("\n");
+    const { issues } = validateProfileYaml(yaml);
+    expect(issues.map((i) => [i.path.join("."), i.severity, i.line, i.col])).toEqual([
+      ["Visibility", "error", 3, 13],
+      ["Experience.0.Start", "warning", 6, 12],
+    ]);
+  });
+
+  it("only warns about constraints the server may not share", () => {
+    const yaml = [
+      "ProfileID: 3f2b6c1e-8d4a-4c2e-9b7a-1d5e6f708192",
+      "Title: QA",
+      "Category: robotics",
+      "Remote: anywhere",
+      "YearsOfExperience: 70",
+    ].join("\n");
+    const { issues } = validateProfileYaml(yaml);
+    expect(issues.map((i) => [i.path.join("."), i.severity])).toEqual([
+      ["ProfileID", "warning"],
+      ["Title", "warning"],
+      ["Category", "warning"],
+      ["YearsOfExperience", "warning"],
+      ["Remote", "warning"],
+    ]);
+    // Wrong types are still errors
+    expect(validateProfileYaml("ProfileID: a-1\nTitle: Dev\nSkills: Go\n").issues).toContainEqual(
+      expect.objectContaining({ path: ["Skills"], severity: "error" }),
+    );
+  });
+
+  it("reports missing required fields and YAML syntax errors", () => {
+    expect(validateProfileYaml("Title: Dev team lead\n").issues[0].message).toBe(
+      "Missing required field: ProfileID",
+    );
+    const { issues } = validateProfileYaml("ProfileID: a\nTitle: [unclosed\n");
+    expect(issues[0].severity).toBe("error");
+    expect(issues[0].line).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { Buffer } from "node:buffer";
+import process from "node:process";
+import { copyFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath, URL } from "node:url";
+import * as api from "../src/lib/api";
+import type { ResumeUpload } from "../src/lib/upload";
+import { redactCommand } from "../src/commands/redact";
+import { profilesCommand } from "../src/commands/profiles";
+
+// Nothing reaches a server: createProfile records the payload and returns a draft
+vi.mock("../src/lib/api", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("../src/lib/api")>();
+  return {
+    ...mod,
+    createProfile: vi.fn(async () => new mod.Profile({ ProfileID: "new1", Yaml: "ProfileID: new1\n" })),
+  };
+});
+
+const fixture = fileURLToPath(new URL("./fixtures/redact/jane-doe.txt", import.meta.url));
+const dir = mkdtempSync(path.join(os.tmpdir(), "mjctl-upload-"));
+vi.stubEnv("XDG_CONFIG_HOME", path.join(dir, "config")); // no redact.yaml or employers.txt
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  vi.mocked(api.createProfile).mockClear();
+});
+
+// The resume sent to createProfile, decoded
+function uploaded(): { filename: string; text: string } {
+  expect(api.createProfile).toHaveBeenCalledTimes(1);
+  const resume = vi.mocked(api.createProfile).mock.calls[0][0].Resume as ResumeUpload;
+  return { filename: resume.filename, text: Buffer.from(resume.content, "base64").toString("utf8") };
+}
+
+function expectRedacted(filename: string, text: string, redactedFile: string) {
+  // The original file name may hold the candidate's name
+  expect(filename).toBe("resume.redacted.txt");
+  expect(filename).not.toContain(path.basename(redactedFile, ".redacted.txt"));
+  const original = readFileSync(fixture, "utf8");
+  expect(text).not.toBe(original);
+  expect(text).toBe(readFileSync(redactedFile, "utf8"));
+  for (const pii of ["jane.doe@example.com", "+1 415 555 0142", "linkedin.com/in/janedoe-dev"]) {
+    expect(text).not.toContain(pii);
+  }
+}
+
+describe("uploading a redacted resume", () => {
+  // First: commander keeps option values (-y) between parses of the same command
+  it("refuses to upload without --yes when there is no terminal", async () => {
+    const file = path.join(dir, "no-tty.txt");
+    copyFileSync(fixture, file);
+    await redactCommand.parseAsync([file, "--upload", "--profile-out", path.join(dir, "c.yaml")], { from: "user" });
+
+    expect(api.createProfile).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+    process.exitCode = undefined;
+  });
+
+  it("redact --upload sends only the redacted text", async () => {
+    const file = path.join(dir, "jane-doe.txt");
+    copyFileSync(fixture, file);
+    await redactCommand.parseAsync([file, "--upload", "-y", "--profile-out", path.join(dir, "a.yaml")], {
+      from: "user",
+    });
+
+    const { filename, text } = uploaded();
+    expectRedacted(filename, text, path.join(dir, "jane-doe.redacted.txt"));
+  });
+
+  it("profiles create --redact sends only the redacted text", async () => {
+    const file = path.join(dir, "create-cv.txt");
+    copyFileSync(fixture, file);
+    await profilesCommand.parseAsync(
+      ["create", "--from-resume", file, "--redact", "-y", "--out", path.join(dir, "b.yaml")],
+      { from: "user" },
+    );
+
+    const { filename, text } = uploaded();
+    expectRedacted(filename, text, path.join(dir, "create-cv.redacted.txt"));
+  });
+});
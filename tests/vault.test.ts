@@ -0,0 +1,72 @@
+import { describe, it, expect, afterAll, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import * as path from "node:path";
+import { cfg } from "../src/lib/config";
+import { readVault, restoreText, writeVault } from "../src/lib/vault";
+import type { Vault } from "../src/lib/vault";
+
+const REDACTED = "******** <[[EMAIL:8c87b489]]>\nEngineer at a bank, \nMail [[EMAIL:8c87b489]]";
+const VAULT: Vault = {
+  v: 1,
+  source: "cv.txt",
+  redactedSha256: "",
+  entries: [
+    { kind: "name", mode: "mask", output: "********", at: 0, original: "Jane Doe" },
+    { kind: "email", mode: "hash", output: "[[EMAIL:8c87b489]]", at: 10, original: "jane@example.com" },
+    { kind: "org", mode: "generalize", output: "a bank", at: 42, original: "Deutsche Bank" },
+    { kind: "loc", mode: "drop", output: "", at: 50, original: "Frankfurt" },
+    { kind: "email", mode: "hash", output: "[[EMAIL:8c87b489]]", at: 56, original: "jane@example.com" },
+  ],
+};
+const ORIGINAL = "Jane Doe <jane@example.com>\nEngineer at Deutsche Bank, Frankfurt\nMail jane@example.com";
+
+describe("restoreText", () => {
+  it("restores every mode by position when the text is unchanged", () => {
+    expect(restoreText(REDACTED, VAULT, { textUnchanged: true })).toEqual({ text: ORIGINAL, restored: 5, skipped: [] });
+  });
+
+  it("restores selected kinds only", () => {
+    const res = restoreText(REDACTED, VAULT, { kinds: ["org", "loc"], textUnchanged: true });
+    expect(res.text).toBe("******** <[[EMAIL:8c87b489]]>\nEngineer at Deutsche Bank, Frankfurt\nMail [[EMAIL:8c87b489]]");
+  });
+
+  it("falls back to hash tags when the text was edited", () => {
+    const edited = REDACTED.replace("Engineer", "Staff engineer");
+    const res = restoreText(edited, VAULT, { textUnchanged: false });
+    expect(res.text).toBe("******** <jane@example.com>\nStaff engineer at a bank, \nMail jane@example.com");
+    expect(res.restored).toBe(2);
+    expect(res.skipped.map((e) => e.kind)).toEqual(["name", "org", "loc"]);
+  });
+});
+
+describe("readVault", () => {
+  const passphrase = cfg.keychainPassphrase;
+  const backend = cfg.keychainBackend;
+  const dir = mkdtempSync(path.join(os.tmpdir(), "mjctl-vault-"));
+  const file = path.join(dir, "cv.vault.json");
+  afterEach(() => {
+    cfg.keychainPassphrase = passphrase;
+    cfg.keychainBackend = backend;
+    vi.unstubAllEnvs();
+  });
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("opens a vault written before the passphrase changed", async () => {
+    cfg.keychainBackend = "file";
+    cfg.keychainPassphrase = "old secret";
+    await writeVault(file, VAULT);
+    cfg.keychainPassphrase = "new secret";
+    await expect(readVault(file)).rejects.toThrow(/MJCTL_KEYCHAIN_OLD_PASSPHRASE/);
+    vi.stubEnv("MJCTL_KEYCHAIN_OLD_PASSPHRASE", "old secret");
+    expect(await readVault(file)).toEqual(VAULT);
+  });
+
+  it("falls back to the machine passphrase", async () => {
+    cfg.keychainBackend = "file";
+    cfg.keychainPassphrase = "";
+    await writeVault(file, VAULT);
+    cfg.keychainPassphrase = "new secret";
+    expect(await readVault(file)).toEqual(VAULT);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { Profile } from "../src/lib/api";
+import { approvalLabel, describeVisibility, parsePauseUntil, visibilityLabel } from "../src/lib/visibility";
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+describe("parsePauseUntil", () => {
+  it("accepts future dates as YYYY-MM-DD", () => {
+    expect(parsePauseUntil("2026-12-01", now)).toBe("2026-12-01");
+    expect(parsePauseUntil(" 2026-10-20 ", now)).toBe("2026-10-20");
+  });
+
+  it("accepts durations in days, weeks and months", () => {
+    expect(parsePauseUntil("30d", now)).toBe("2026-11-18");
+    expect(parsePauseUntil("2w", now)).toBe("2026-11-02");
+    expect(parsePauseUntil("3M", now)).toBe("2027-01-19");
+  });
+
+  it("rejects malformed and impossible dates", () => {
+    for (const bad of ["", "2026-13-01", "2026-02-30", "12/01/2026", "2026-12-1", "3y", "-2d", "soon"]) {
+      expect(() => parsePauseUntil(bad, now), bad).toThrow(/YYYY-MM-DD/);
+    }
+  });
+
+  it("rejects today and past dates", () => {
+    expect(() => parsePauseUntil("2026-10-19", now)).toThrow(/future/);
+    expect(() => parsePauseUntil("2025-01-01", now)).toThrow(/future/);
+    expect(() => parsePauseUntil("0d", now)).toThrow(/future/);
+  });
+});
+
+describe("profile status texts", () => {
+  it("shows visibility and the pause date in the list column", () => {
+    expect(visibilityLabel(new Profile({ Visibility: "public" }))).toBe("public");
+    expect(visibilityLabel(new Profile({ PausedUntil: "2026-12-01T00:00:00Z" }))).toBe(
+      "private (paused until 2026-12-01)",
+    );
+    expect(visibilityLabel(new Profile({}))).toBe("-");
+  });
+
+  it("joins approval and moderation status", () => {
+    expect(approvalLabel(new Profile({ ApprovalStatus: "pending", ModerationStatus: "flagged" }))).toBe(
+      "pending/flagged",
+    );
+    expect(approvalLabel(new Profile({ ApprovalStatus: "approved" }))).toBe("approved");
+    expect(approvalLabel(new Profile({}))).toBe("-");
+  });
+
+  it("describes the state after publish, hide and pause", () => {
+    expect(describeVisibility(new Profile({ ProfileID: "a1", Visibility: "public", ApprovalStatus: "approved" })))
+      .toBe("Profile a1 is published.");
+    expect(describeVisibility(new Profile({ ProfileID: "a1", Visibility: "public", ApprovalStatus: "pending" })))
+      .toBe("Profile a1 is published (approval pending: visible to recruiters once approved).");
+    expect(describeVisibility(new Profile({ ProfileID: "a1", Visibility: "private" }))).toBe("Profile a1 is hidden.");
+    expect(describeVisibility(new Profile({ ProfileID: "a1", Visibility: "private", PausedUntil: "2026-12-01" })))
+      .toBe("Profile a1 is hidden until 2026-12-01, then published again.");
+  });
+});
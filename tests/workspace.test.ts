@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import * as path from "node:path";
+import { stringify } from "yaml";
+import * as api from "../src/lib/api";
+import { profilesCommand } from "../src/commands/profiles";
+import { MANIFEST_FILE, readManifest, sha256Hex } from "../src/lib/sync";
+
+// The server: profile YAML and its update timestamp (the revision) by ID
+const server = new Map<string, { yaml: string; updated: string }>();
+
+vi.mock("../src/lib/api", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("../src/lib/api")>();
+  const profile = (id: string) => {
+    const p = server.get(id);
+    return p ? new mod.Profile({ ProfileID: id, Yaml: p.yaml, Updated: p.updated }) : null;
+  };
+  return {
+    ...mod,
+    listProfiles: vi.fn(async () => [...server.keys()].map((id) => new mod.Profile({ ProfileID: id }))),
+    getProfile: vi.fn(async (id: string) => profile(id)),
+    updateProfile: vi.fn(async (id: string, payload: Record<string, unknown>) => {
+      server.set(id, { yaml: stringify(payload), updated: `${server.get(id)?.updated}+1` });
+      return profile(id)!;
+    }),
+    listBlockedEmployers: vi.fn(async () => []),
+  };
+});
+
+const dir = mkdtempSync(path.join(os.tmpdir(), "mjctl-workspace-"));
+const ws = path.join(dir, "profiles");
+vi.stubEnv("XDG_CONFIG_HOME", path.join(dir, "config"));
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  vi.mocked(api.updateProfile).mockClear();
+});
+
+const run = (...args: string[]) => profilesCommand.parseAsync(args, { from: "user" });
+const draft = (id: string) => path.join(ws, `profile-${id}.yaml`);
+
+describe("profiles pull and push", () => {
+  it("pull writes every profile and records it in the manifest", async () => {
+    server.set("a1", { yaml: "ProfileID: a1\nTitle: Backend Developer\n", updated: "2026-01-01" });
+    server.set("b2", { yaml: "ProfileID: b2\nTitle: Data Engineer\n", updated: "2026-01-02" });
+    expect((await readManifest(ws)).profiles).toEqual({});
+
+    await run("pull", ws);
+
+    expect(readFileSync(draft("a1"), "utf8")).toBe(server.get("a1")!.yaml);
+    expect(readFileSync(draft("b2"), "utf8")).toBe(server.get("b2")!.yaml);
+    const manifest = JSON.parse(readFileSync(path.join(ws, MANIFEST_FILE), "utf8"));
+    expect(manifest.profiles.a1).toMatchObject({
+      file: "profile-a1.yaml",
+      sha256: sha256Hex(server.get("a1")!.yaml),
+      revision: "updated:2026-01-01",
+    });
+    expect(Object.keys(manifest.profiles)).toEqual(["a1", "b2"]);
+  });
+
+  it("push uploads only the drafts that changed", async () => {
+    const edited = "ProfileID: a1\nTitle: Senior Backend Developer\n";
+    writeFileSync(draft("a1"), edited);
+
+    await run("push", ws, "-y");
+
+    expect(api.updateProfile).toHaveBeenCalledTimes(1);
+    expect(api.updateProfile).toHaveBeenCalledWith("a1", { ProfileID: "a1", Title: "Senior Backend Developer" });
+    const manifest = await readManifest(ws);
+    expect(manifest.profiles.a1).toMatchObject({ sha256: sha256Hex(edited), revision: "updated:2026-01-01+1" });
+    expect(manifest.profiles.b2.revision).toBe("updated:2026-01-02");
+
+    // Nothing changed since: nothing to upload
+    await run("push", ws, "-y");
+    expect(api.updateProfile).toHaveBeenCalledTimes(1);
+  });
+
+  it("push refuses a draft whose server copy changed since the last pull", async () => {
+    server.set("b2", { yaml: "ProfileID: b2\nTitle: Data Engineer (edited online)\n", updated: "2026-02-01" });
+    writeFileSync(draft("b2"), "ProfileID: b2\nTitle: Lead Data Engineer\n");
+
+    await run("push", ws, "-y");
+
+    expect(api.updateProfile).not.toHaveBeenCalled();
+    expect(server.get("b2")!.yaml).toContain("edited online");
+    expect((await readManifest(ws)).profiles.b2.revision).toBe("updated:2026-01-02");
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { parse } from "yaml";
+import { setYamlValues, updateYaml } from "../src/lib/yamledit";
+
+const draft = `# My profile
+Title: Senior Dev # keep this comment
+Summary: Reach me at jane@example.com
+Contact: jane@example.com
+Skills:
+  - Go
+`;
+
+describe("setYamlValues", () => {
+  it("rewrites only the given leaves and keeps comments", () => {
+    const out = setYamlValues(draft, [{ path: ["Summary"], value: "Reach me at [[EMAIL:1a2b]]" }], { quote: true });
+    expect(out).toContain("# My profile");
+    expect(out).toContain("Title: Senior Dev # keep this comment");
+    expect(out).toContain('Summary: "Reach me at [[EMAIL:1a2b]]"');
+    // A field the user chose to keep is left alone even though it holds the same value
+    expect(out).toContain("Contact: jane@example.com");
+  });
+
+  it("quotes tags so they do not parse as flow sequences", () => {
+    const out = setYamlValues(draft, [{ path: ["Contact"], value: "[[EMAIL:1a2b]]" }], { quote: true });
+    expect(parse(out).Contact).toBe("[[EMAIL:1a2b]]");
+  });
+
+  it("edits list items and adds missing keys", () => {
+    const out = setYamlValues(draft, [
+      { path: ["Skills", 0], value: "Rust" },
+      { path: ["Category"], value: "engineering" },
+    ]);
+    expect(parse(out)).toMatchObject({ Skills: ["Rust"], Category: "engineering" });
+  });
+});
+
+describe("updateYaml", () => {
+  it("applies merged values without dropping comments", () => {
+    const merged = { ...parse(draft), Title: "Lead Dev", Skills: ["Go", "Rust"], Category: "engineering" };
+    delete merged.Contact;
+    const out = updateYaml(draft, merged);
+    expect(parse(out)).toEqual(merged);
+    expect(out).toContain("# My profile");
+    expect(out).toContain("Title: Lead Dev # keep this comment");
+    expect(out).not.toContain("Contact:");
+  });
+
+  it("returns the text unchanged when nothing differs", () => {
+    expect(updateYaml(draft, parse(draft))).toBe(draft);
+  });
+});